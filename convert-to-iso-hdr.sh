@@ -61,6 +61,47 @@ check_magick_for_conversion() {
     print_success "ImageMagick with UHDR support found"
 }
 
+# ultrahdr_app colour gamut code of a gamut name (0 BT.709, 1 Display P3, 2 BT.2100)
+gamut_code() {
+    case "$1" in
+        display_p3) echo 1 ;;
+        bt2100) echo 2 ;;
+        *) echo 0 ;;
+    esac
+}
+
+# Detect the container format from the file's header bytes (jpg, jxl, avif, heic or unknown)
+detect_format() {
+    local header
+    header=$(head -c 32 "$1" | od -An -tx1 -v | tr -d ' \n')
+
+    case "$header" in
+        ffd8ff*)
+            echo "jpg"
+            ;;
+        ff0a*|0000000c4a584c200d0a870a*)
+            echo "jxl"
+            ;;
+        ????????66747970*)
+            # ISOBMFF ftyp box: look for AVIF brands first, then HEIC/HEIF brands
+            case "${header:16}" in
+                *61766966*|*61766973*) echo "avif" ;;
+                *68656963*|*68656978*|*6d696631*) echo "heic" ;;
+                *) echo "unknown" ;;
+            esac
+            ;;
+        *)
+            echo "unknown"
+            ;;
+    esac
+}
+
+# Scale a dimension by target/source, rounded to the nearest pixel (at least 1)
+scale_dimension() {
+    local scaled=$(( ($1 * $2 * 2 + $3) / ($3 * 2) ))
+    echo $(( scaled > 0 ? scaled : 1 ))
+}
+
 usage() {
     cat << EOF
 Usage: $0 [OPTIONS] <input_image.jpg|input_image.jxl|input_image.avif>
@@ -70,8 +111,28 @@ Supports HDR JPEG (with gain map), JXL, and AVIF input formats.
 
 OPTIONS:
     -o, --output <file>     Output filename (default: input_iso.jpg)
-    -q, --quality <1-100>   JPEG quality (default: 95)
-    -f, --metadata <file>   Custom gain map metadata.cfg (default: hdr-config.cfg)
+    -q, --quality <1-100>   JPEG quality of the SDR base (default: 95)
+    -Q, --gain-map-quality <1-100>
+                            JPEG quality of the gain map (default: same as --quality)
+    -g, --gain-map-scale <1|2|4>
+                            Store the gain map at 1/1, 1/2 or 1/4 of its resolution (default: 1)
+    -s, --subsampling <420|422|444>
+                            Chroma subsampling of the SDR base and gain map (default: 420)
+    -r, --resize <px>       Scale the SDR base and gain map down so the long edge fits <px>
+    -y, --synthesize        Compute a new gain map from the HDR rendition instead of keeping the
+                            input's, with an SDR base tone-mapped by libultrahdr
+    -S, --sdr <file.jpg>    SDR JPEG to use as the base when synthesizing (implies --synthesize)
+    --transfer <pq|hlg|linear>
+                            Transfer function of a JXL/AVIF input (default: pq)
+    --hdr-gamut <bt709|display_p3|bt2100>
+                            Colour gamut of a JXL/AVIF input (default: bt709)
+    --sdr-gamut <bt709|display_p3|bt2100>
+                            Colour gamut of the SDR base made from a JXL/AVIF input (default: bt709)
+    -t, --temp-dir <dir>    Working directory for intermediate files (default: a new mktemp dir)
+    -f, --metadata <file>   Custom gain map metadata.cfg (default: hdr-config.cfg); not used with
+                            --synthesize, which keeps the metadata libultrahdr computed
+    -m, --metadata-out <dir>
+                            Keep the decoded input_metadata.cfg and output_metadata.cfg in <dir>
     -h, --help              Show this help message
 
 EXAMPLES:
@@ -79,7 +140,13 @@ EXAMPLES:
     $0 photo.jxl                              # Convert JXL to ISO HDR
     $0 photo.avif                             # Convert AVIF to ISO HDR
     $0 -o instagram_ready.jpg -q 98 photo.jpg
+    $0 -q 95 -s 444 photo.avif                # Full chroma resolution
+    $0 -Q 85 -g 2 photo.avif                  # Smaller gain map, half resolution
+    $0 -r 1080 photo.avif                     # Fit Instagram's 1080px, keeping the gain map
+    $0 --hdr-gamut display_p3 photo.avif      # Display P3 AVIF
     $0 -f custom_metadata.cfg photo.jxl
+    $0 -y photo.avif                          # New gain map against a tone-mapped SDR
+    $0 -S photo_sdr.jpg photo.avif            # New gain map against your own SDR export
 
 REQUIREMENTS:
     - exiftool (brew install exiftool)
@@ -93,7 +160,18 @@ EOF
 INPUT_FILE=""
 OUTPUT_FILE=""
 QUALITY=95
+GAINMAP_QUALITY=""
+GAINMAP_SCALE=1
+SUBSAMPLING=420
+RESIZE=""
+SYNTHESIZE=0
+SDR_FILE=""
+TRANSFER="pq"
+HDR_GAMUT="bt709"
+SDR_GAMUT="bt709"
+TEMP_DIR=""
 CUSTOM_METADATA=""
+METADATA_OUT_DIR=""
 
 while [[ $# -gt 0 ]]; do
     case $1 in
@@ -105,10 +183,55 @@ while [[ $# -gt 0 ]]; do
             QUALITY="$2"
             shift 2
             ;;
+        -Q|--gain-map-quality)
+            GAINMAP_QUALITY="$2"
+            shift 2
+            ;;
+        -g|--gain-map-scale)
+            GAINMAP_SCALE="$2"
+            shift 2
+            ;;
+        -s|--subsampling)
+            SUBSAMPLING="$2"
+            shift 2
+            ;;
+        -r|--resize)
+            RESIZE="$2"
+            shift 2
+            ;;
+        -y|--synthesize)
+            SYNTHESIZE=1
+            shift
+            ;;
+        -S|--sdr)
+            SDR_FILE="$2"
+            SYNTHESIZE=1
+            shift 2
+            ;;
+        --transfer)
+            TRANSFER="$2"
+            shift 2
+            ;;
+        --hdr-gamut)
+            HDR_GAMUT="$2"
+            shift 2
+            ;;
+        --sdr-gamut)
+            SDR_GAMUT="$2"
+            shift 2
+            ;;
+        -t|--temp-dir)
+            TEMP_DIR="$2"
+            shift 2
+            ;;
         -f|--metadata)
             CUSTOM_METADATA="$2"
             shift 2
             ;;
+        -m|--metadata-out)
+            METADATA_OUT_DIR="$2"
+            shift 2
+            ;;
         -h|--help)
             usage
             ;;
@@ -135,6 +258,69 @@ if [ ! -f "$INPUT_FILE" ]; then
     exit 1
 fi
 
+if ! [[ "$QUALITY" =~ ^[0-9]+$ ]] || [ "$QUALITY" -lt 1 ] || [ "$QUALITY" -gt 100 ]; then
+    print_error "Invalid quality: $QUALITY (expected 1-100)"
+    exit 1
+fi
+
+GAINMAP_QUALITY="${GAINMAP_QUALITY:-$QUALITY}"
+if ! [[ "$GAINMAP_QUALITY" =~ ^[0-9]+$ ]] || [ "$GAINMAP_QUALITY" -lt 1 ] || [ "$GAINMAP_QUALITY" -gt 100 ]; then
+    print_error "Invalid gain map quality: $GAINMAP_QUALITY (expected 1-100)"
+    exit 1
+fi
+
+case "$GAINMAP_SCALE" in
+    1|2|4) ;;
+    *)
+        print_error "Invalid gain map scale: $GAINMAP_SCALE (expected 1, 2 or 4)"
+        exit 1
+        ;;
+esac
+
+# cjpeg sampling factors of the luma channel for each chroma subsampling mode
+case "$SUBSAMPLING" in
+    420) CJPEG_SAMPLE="2x2"; SUBSAMPLING_LABEL="4:2:0" ;;
+    422) CJPEG_SAMPLE="2x1"; SUBSAMPLING_LABEL="4:2:2" ;;
+    444) CJPEG_SAMPLE="1x1"; SUBSAMPLING_LABEL="4:4:4" ;;
+    *)
+        print_error "Invalid subsampling: $SUBSAMPLING (expected 420, 422 or 444)"
+        exit 1
+        ;;
+esac
+
+case "$TRANSFER" in
+    pq|hlg|linear) ;;
+    *)
+        print_error "Invalid transfer: $TRANSFER (expected pq, hlg or linear)"
+        exit 1
+        ;;
+esac
+
+for gamut in "$HDR_GAMUT" "$SDR_GAMUT"; do
+    case "$gamut" in
+        bt709|display_p3|bt2100) ;;
+        *)
+            print_error "Invalid colour gamut: $gamut (expected bt709, display_p3 or bt2100)"
+            exit 1
+            ;;
+    esac
+done
+
+if [ -n "$RESIZE" ] && { ! [[ "$RESIZE" =~ ^[0-9]+$ ]] || [ "$RESIZE" -lt 16 ]; }; then
+    print_error "Invalid resize target: $RESIZE (expected a long edge of at least 16px)"
+    exit 1
+fi
+
+if [ -n "$SDR_FILE" ] && [ ! -f "$SDR_FILE" ]; then
+    print_error "SDR image not found: $SDR_FILE"
+    exit 1
+fi
+
+if [ -n "$CUSTOM_METADATA" ] && [ ! -f "$CUSTOM_METADATA" ]; then
+    print_error "Metadata file not found: $CUSTOM_METADATA"
+    exit 1
+fi
+
 # Set default output filename
 if [ -z "$OUTPUT_FILE" ]; then
     filename="${INPUT_FILE%.*}"
@@ -144,29 +330,27 @@ fi
 
 check_dependencies
 
-# Detect file type and handle JXL conversion if needed
-FILE_EXT="${INPUT_FILE##*.}"
-FILE_EXT_LOWER=$(echo "$FILE_EXT" | tr '[:upper:]' '[:lower:]')
+# Detect file type from its header bytes and handle JXL conversion if needed
+INPUT_FORMAT=$(detect_format "$INPUT_FILE")
 SCRIPT_DIR_PATH="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
 
-# Create base temp directory
-INPUT_BASENAME=$(basename "$INPUT_FILE" ".$FILE_EXT")
-TEMP_DIR="$SCRIPT_DIR_PATH/temp/$INPUT_BASENAME"
-mkdir -p "$TEMP_DIR"
-trap "rm -rf $TEMP_DIR" EXIT
+# Create a private temp directory, so concurrent runs never share intermediate files
+if [ -n "$TEMP_DIR" ]; then
+    mkdir -p "$TEMP_DIR"
+else
+    TEMP_DIR=$(mktemp -d "${TMPDIR:-/tmp}/convert-to-iso-hdr.XXXXXX")
+fi
+trap 'rm -rf "$TEMP_DIR"' EXIT
 
 print_info "Using temp directory: $TEMP_DIR"
 
 # If input is JXL or AVIF, convert to intermediate HDR JPG first
 PROCESSING_FILE="$INPUT_FILE"
-if [ "$FILE_EXT_LOWER" = "jxl" ] || [ "$FILE_EXT_LOWER" = "avif" ]; then
-    print_info "Detected $FILE_EXT_LOWER input, converting to intermediate HDR JPG..."
+if [ "$INPUT_FORMAT" = "jxl" ] || [ "$INPUT_FORMAT" = "avif" ]; then
+    print_info "Detected $INPUT_FORMAT input, converting to intermediate HDR JPG..."
     check_magick_for_conversion
 
     INTERMEDIATE_HDR="$TEMP_DIR/intermediate_hdr.jpg"
-    TRANSFER="pq"
-    HDR_GAMUT="bt709"
-    SDR_GAMUT="bt709"
 
     print_info "Settings: transfer=$TRANSFER, hdr-gamut=$HDR_GAMUT, sdr-gamut=$SDR_GAMUT"
 
@@ -177,7 +361,7 @@ if [ "$FILE_EXT_LOWER" = "jxl" ] || [ "$FILE_EXT_LOWER" = "avif" ]; then
         UHDR:"$INTERMEDIATE_HDR" 2>&1 | tee "$TEMP_DIR/format_convert.log"; then
 
         if [ -f "$INTERMEDIATE_HDR" ]; then
-            print_success "$FILE_EXT_LOWER converted to intermediate HDR JPG"
+            print_success "$INPUT_FORMAT converted to intermediate HDR JPG"
             PROCESSING_FILE="$INTERMEDIATE_HDR"
         else
             print_error "Intermediate HDR JPG was not created"
@@ -185,13 +369,13 @@ if [ "$FILE_EXT_LOWER" = "jxl" ] || [ "$FILE_EXT_LOWER" = "avif" ]; then
             exit 1
         fi
     else
-        print_error "$FILE_EXT_LOWER to HDR JPG conversion failed"
+        print_error "$INPUT_FORMAT to HDR JPG conversion failed"
         cat "$TEMP_DIR/format_convert.log"
         exit 1
     fi
-elif [ "$FILE_EXT_LOWER" != "jpg" ] && [ "$FILE_EXT_LOWER" != "jpeg" ]; then
-    print_error "Unsupported file format: .$FILE_EXT"
-    echo "Supported formats: .jpg, .jpeg, .jxl, .avif"
+elif [ "$INPUT_FORMAT" != "jpg" ]; then
+    print_error "Unsupported file format: $INPUT_FILE is $INPUT_FORMAT (detected from file header)"
+    echo "Supported formats: JPEG, JXL, AVIF"
     exit 1
 fi
 
@@ -216,6 +400,53 @@ fi
 
 print_info "Image dimensions: ${IMAGE_WIDTH}x${IMAGE_HEIGHT}"
 
+# Synthesis: rebuild the Ultra HDR JPEG from the decoded HDR rendition, so libultrahdr computes
+# a fresh gain map and metadata against the supplied SDR image or its own tone mapping
+if [ "$SYNTHESIZE" -eq 1 ]; then
+    if [ -n "$SDR_FILE" ]; then
+        print_info "Synthesizing gain map from the SDR + HDR pair..."
+        if [ "$(detect_format "$SDR_FILE")" != "jpg" ]; then
+            print_error "SDR image must be a JPEG: $SDR_FILE"
+            exit 1
+        fi
+
+        SDR_WIDTH=$(exiftool -ImageWidth "$SDR_FILE" 2>/dev/null | grep -oE '[0-9]+$')
+        SDR_HEIGHT=$(exiftool -ImageHeight "$SDR_FILE" 2>/dev/null | grep -oE '[0-9]+$')
+        if [ "$SDR_WIDTH" != "$IMAGE_WIDTH" ] || [ "$SDR_HEIGHT" != "$IMAGE_HEIGHT" ]; then
+            print_error "SDR image is ${SDR_WIDTH:-?}x${SDR_HEIGHT:-?}, the HDR source is ${IMAGE_WIDTH}x${IMAGE_HEIGHT}"
+            exit 1
+        fi
+    else
+        print_info "Synthesizing gain map with a tone-mapped SDR base..."
+    fi
+
+    # HLG in RGBA1010102, the same intent the main decode step uses
+    SYNTH_HDR_RAW="$TEMP_DIR/synth_hdr.raw"
+    if ! $ULTRAHDR_APP -m 1 -j "$PROCESSING_FILE" -z "$SYNTH_HDR_RAW" -o 1 -O 5 &> "$TEMP_DIR/synth_decode.log"; then
+        print_error "Could not decode an HDR rendition from $INPUT_FILE to synthesize from"
+        cat "$TEMP_DIR/synth_decode.log"
+        exit 1
+    fi
+
+    # API-3 (HDR raw + compressed SDR) or API-0 (HDR raw only, SDR tone-mapped by libultrahdr)
+    SYNTH_OUTPUT="$TEMP_DIR/synthesized.jpg"
+    # The decoded rendition is tagged with the source's gamuts, otherwise libultrahdr assumes BT.709
+    SYNTH_ARGS=(-m 0 -p "$SYNTH_HDR_RAW" -a 5 -t 1 -C "$(gamut_code "$HDR_GAMUT")" -c "$(gamut_code "$SDR_GAMUT")" \
+        -w "$IMAGE_WIDTH" -h "$IMAGE_HEIGHT" -q 100 -Q 100 -z "$SYNTH_OUTPUT")
+    if [ -n "$SDR_FILE" ]; then
+        SYNTH_ARGS+=(-i "$SDR_FILE")
+    fi
+
+    if $ULTRAHDR_APP "${SYNTH_ARGS[@]}" &> "$TEMP_DIR/synth_encode.log" && [ -s "$SYNTH_OUTPUT" ]; then
+        print_success "Synthesized gain map and metadata"
+        PROCESSING_FILE="$SYNTH_OUTPUT"
+    else
+        print_error "Gain map synthesis failed"
+        cat "$TEMP_DIR/synth_encode.log"
+        exit 1
+    fi
+fi
+
 # Decode HDR image to raw and extract metadata
 TEMP_HDR_RAW="$TEMP_DIR/hdr_decoded.raw"
 INPUT_METADATA="$TEMP_DIR/input_metadata.cfg"
@@ -232,25 +463,25 @@ if $ULTRAHDR_APP -m 1 -j "$PROCESSING_FILE" -z "$TEMP_HDR_RAW" -o 1 -O 5 -f "$IN
         print_success "Decoded to SDR format"
 
 
-        # Step 3: Create 4:2:0 compressed SDR JPEG using cjpeg
-            print_info "Compressing SDR with YCbCr 4:2:0 subsampling (Instagram format)..."
+        # Step 3: Create the compressed SDR JPEG using cjpeg
+            print_info "Compressing SDR with YCbCr $SUBSAMPLING_LABEL subsampling (quality $QUALITY)..."
 
-            TEMP_SDR_420="$TEMP_DIR/sdr_420.jpg"
+            TEMP_SDR_JPEG="$TEMP_DIR/sdr_base.jpg"
 
             # Convert RAW to PPM first, then compress with cjpeg
             # RGBA8888 format: 4 bytes per pixel
             if command -v convert &> /dev/null; then
-                # Use ImageMagick to convert raw to temp format, then cjpeg for 4:2:0
+                # Use ImageMagick to convert raw to temp format, then cjpeg for the chosen subsampling
                 convert -size ${IMAGE_WIDTH}x${IMAGE_HEIGHT} -depth 8 rgba:"$TEMP_SDR_RAW" \
                     -colorspace sRGB \
                     -quality 100 \
                     ppm:- 2>/dev/null | \
-                cjpeg -quality 100 -sample 2x2 -progressive -optimize > "$TEMP_SDR_420" 2>/dev/null
+                cjpeg -quality "$QUALITY" -sample "$CJPEG_SAMPLE" -progressive -optimize > "$TEMP_SDR_JPEG" 2>/dev/null
 
-                if [ $? -eq 0 ] && [ -s "$TEMP_SDR_420" ]; then
-                    print_success "Created 4:2:0 SDR base image"
+                if [ $? -eq 0 ] && [ -s "$TEMP_SDR_JPEG" ]; then
+                    print_success "Created $SUBSAMPLING_LABEL SDR base image"
                 else
-                    print_error "Failed to create 4:2:0 SDR image"
+                    print_error "Failed to create $SUBSAMPLING_LABEL SDR image"
                     exit 1
                 fi
             else
@@ -275,8 +506,8 @@ if $ULTRAHDR_APP -m 1 -j "$PROCESSING_FILE" -z "$TEMP_HDR_RAW" -o 1 -O 5 -f "$IN
             exit 1
         fi
 
-        # Re-compress gain map with 4:2:0 YCbCr subsampling
-        print_info "Re-compressing gain map with YCbCr 4:2:0 subsampling..."
+        # Re-compress gain map with the chosen YCbCr subsampling
+        print_info "Re-compressing gain map with YCbCr $SUBSAMPLING_LABEL subsampling (quality $GAINMAP_QUALITY)..."
 
         GAINMAP_WIDTH=$(exiftool -ImageWidth "$TEMP_GAINMAP" 2>/dev/null | grep -oE '[0-9]+$')
         GAINMAP_HEIGHT=$(exiftool -ImageHeight "$TEMP_GAINMAP" 2>/dev/null | grep -oE '[0-9]+$')
@@ -288,17 +519,17 @@ if $ULTRAHDR_APP -m 1 -j "$PROCESSING_FILE" -z "$TEMP_HDR_RAW" -o 1 -O 5 -f "$IN
 
         print_info "Gain map dimensions: ${GAINMAP_WIDTH}x${GAINMAP_HEIGHT}"
 
-        TEMP_GAINMAP_420="$TEMP_DIR/gainmap_420.jpg"
+        TEMP_GAINMAP_JPEG="$TEMP_DIR/gainmap_recompressed.jpg"
 
         if command -v convert &> /dev/null; then
-            # Convert JPEG gain map to PPM, then compress with 4:2:0 subsampling
+            # Convert JPEG gain map to PPM, then compress with the chosen subsampling
             convert "$TEMP_GAINMAP" ppm:- 2>/dev/null | \
-            cjpeg -quality 100 -sample 2x2 -progressive -optimize > "$TEMP_GAINMAP_420" 2>/dev/null
+            cjpeg -quality "$GAINMAP_QUALITY" -sample "$CJPEG_SAMPLE" -progressive -optimize > "$TEMP_GAINMAP_JPEG" 2>/dev/null
 
-            if [ $? -eq 0 ] && [ -s "$TEMP_GAINMAP_420" ]; then
-                print_success "Created 4:2:0 gain map"
+            if [ $? -eq 0 ] && [ -s "$TEMP_GAINMAP_JPEG" ]; then
+                print_success "Created $SUBSAMPLING_LABEL gain map"
             else
-                print_error "Failed to create 4:2:0 gain map"
+                print_error "Failed to create $SUBSAMPLING_LABEL gain map"
                 exit 1
             fi
         else
@@ -306,11 +537,84 @@ if $ULTRAHDR_APP -m 1 -j "$PROCESSING_FILE" -z "$TEMP_HDR_RAW" -o 1 -O 5 -f "$IN
             exit 1
         fi
 
+        # Optional resize: scale the SDR base and gain map together before the re-encode
+        if [ -n "$RESIZE" ]; then
+            LONG_EDGE=$(( IMAGE_WIDTH > IMAGE_HEIGHT ? IMAGE_WIDTH : IMAGE_HEIGHT ))
+
+            if [ "$LONG_EDGE" -le "$RESIZE" ]; then
+                print_info "Image already fits ${RESIZE}px, skipping resize"
+            else
+                print_info "Resizing SDR base and gain map to fit ${RESIZE}px..."
+
+                GAINMAP_LONG_EDGE=$(( GAINMAP_WIDTH > GAINMAP_HEIGHT ? GAINMAP_WIDTH : GAINMAP_HEIGHT ))
+                SCALE_FACTOR=$(( IMAGE_WIDTH / GAINMAP_WIDTH ))
+
+                if [ $(( GAINMAP_WIDTH * SCALE_FACTOR )) -eq "$IMAGE_WIDTH" ] && [ $(( GAINMAP_HEIGHT * SCALE_FACTOR )) -eq "$IMAGE_HEIGHT" ]; then
+                    # Size the gain map first so the base keeps the same integer scale factor
+                    TARGET_GAINMAP_EDGE=$(( RESIZE / SCALE_FACTOR ))
+                    NEW_GAINMAP_WIDTH=$(scale_dimension "$GAINMAP_WIDTH" "$TARGET_GAINMAP_EDGE" "$GAINMAP_LONG_EDGE")
+                    NEW_GAINMAP_HEIGHT=$(scale_dimension "$GAINMAP_HEIGHT" "$TARGET_GAINMAP_EDGE" "$GAINMAP_LONG_EDGE")
+                    NEW_WIDTH=$(( NEW_GAINMAP_WIDTH * SCALE_FACTOR ))
+                    NEW_HEIGHT=$(( NEW_GAINMAP_HEIGHT * SCALE_FACTOR ))
+                else
+                    NEW_WIDTH=$(scale_dimension "$IMAGE_WIDTH" "$RESIZE" "$LONG_EDGE")
+                    NEW_HEIGHT=$(scale_dimension "$IMAGE_HEIGHT" "$RESIZE" "$LONG_EDGE")
+                    NEW_GAINMAP_WIDTH=$(scale_dimension "$GAINMAP_WIDTH" "$RESIZE" "$LONG_EDGE")
+                    NEW_GAINMAP_HEIGHT=$(scale_dimension "$GAINMAP_HEIGHT" "$RESIZE" "$LONG_EDGE")
+                fi
+
+                # Resample from the decoded SDR and the original gain map to avoid a second JPEG generation loss
+                convert -size ${IMAGE_WIDTH}x${IMAGE_HEIGHT} -depth 8 rgba:"$TEMP_SDR_RAW" \
+                    -colorspace sRGB \
+                    -resize "${NEW_WIDTH}x${NEW_HEIGHT}!" \
+                    ppm:- 2>/dev/null | \
+                cjpeg -quality "$QUALITY" -sample "$CJPEG_SAMPLE" -progressive -optimize > "$TEMP_SDR_JPEG" 2>/dev/null
+
+                if [ $? -ne 0 ] || [ ! -s "$TEMP_SDR_JPEG" ]; then
+                    print_error "Failed to resize SDR base image"
+                    exit 1
+                fi
+
+                convert "$TEMP_GAINMAP" -resize "${NEW_GAINMAP_WIDTH}x${NEW_GAINMAP_HEIGHT}!" ppm:- 2>/dev/null | \
+                cjpeg -quality "$GAINMAP_QUALITY" -sample "$CJPEG_SAMPLE" -progressive -optimize > "$TEMP_GAINMAP_JPEG" 2>/dev/null
+
+                if [ $? -ne 0 ] || [ ! -s "$TEMP_GAINMAP_JPEG" ]; then
+                    print_error "Failed to resize gain map"
+                    exit 1
+                fi
+
+                print_success "Resized to ${NEW_WIDTH}x${NEW_HEIGHT} (gain map ${NEW_GAINMAP_WIDTH}x${NEW_GAINMAP_HEIGHT})"
+                GAINMAP_WIDTH="$NEW_GAINMAP_WIDTH"
+                GAINMAP_HEIGHT="$NEW_GAINMAP_HEIGHT"
+            fi
+        fi
+
+        # Optional gain map downscale, rounded up like libultrahdr does for its own gain maps
+        if [ "$GAINMAP_SCALE" -gt 1 ]; then
+            SCALED_GAINMAP_WIDTH=$(( (GAINMAP_WIDTH + GAINMAP_SCALE - 1) / GAINMAP_SCALE ))
+            SCALED_GAINMAP_HEIGHT=$(( (GAINMAP_HEIGHT + GAINMAP_SCALE - 1) / GAINMAP_SCALE ))
+            print_info "Scaling gain map by 1/$GAINMAP_SCALE..."
+
+            convert "$TEMP_GAINMAP" -resize "${SCALED_GAINMAP_WIDTH}x${SCALED_GAINMAP_HEIGHT}!" ppm:- 2>/dev/null | \
+            cjpeg -quality "$GAINMAP_QUALITY" -sample "$CJPEG_SAMPLE" -progressive -optimize > "$TEMP_GAINMAP_JPEG" 2>/dev/null
+
+            if [ $? -ne 0 ] || [ ! -s "$TEMP_GAINMAP_JPEG" ]; then
+                print_error "Failed to scale gain map"
+                exit 1
+            fi
+
+            print_success "Scaled gain map to ${SCALED_GAINMAP_WIDTH}x${SCALED_GAINMAP_HEIGHT}"
+        fi
+
         TEMP_ULTRAHDR_OUTPUT="$TEMP_DIR/ultrahdr_output.jpg"
 
         # Determine which metadata to use
         METADATA_FILE=""
-        if [ -n "$CUSTOM_METADATA" ] && [ -f "$CUSTOM_METADATA" ]; then
+        if [ "$SYNTHESIZE" -eq 1 ]; then
+            # The synthesized gain map only renders correctly with the metadata computed for it
+            METADATA_FILE="$INPUT_METADATA"
+            print_info "Using the synthesized gain map metadata"
+        elif [ -n "$CUSTOM_METADATA" ] && [ -f "$CUSTOM_METADATA" ]; then
             METADATA_FILE="$CUSTOM_METADATA"
             print_info "Using custom metadata: $CUSTOM_METADATA"
         else
@@ -327,8 +631,8 @@ if $ULTRAHDR_APP -m 1 -j "$PROCESSING_FILE" -z "$TEMP_HDR_RAW" -o 1 -O 5 -f "$IN
         print_info "Re-encoding with API-4 (SDR + gain map + metadata)..."
 
         if $ULTRAHDR_APP -m 0 \
-            -i "$TEMP_SDR_420" \
-            -g "$TEMP_GAINMAP_420" \
+            -i "$TEMP_SDR_JPEG" \
+            -g "$TEMP_GAINMAP_JPEG" \
             -f "$METADATA_FILE" \
             -z "$TEMP_ULTRAHDR_OUTPUT" &> "$TEMP_DIR/encode.log"; then
             print_success "Successfully re-encoded to Instagram HDR format"
@@ -361,9 +665,23 @@ if $ULTRAHDR_APP -m 1 -j "$PROCESSING_FILE" -z "$TEMP_HDR_RAW" -o 1 -O 5 -f "$IN
                 print_info "Metadata changed: maxContentBoost $IN_MAX → $OUT_MAX, hdrCapacityMax $IN_HDR_MAX → $OUT_HDR_MAX"
             fi
         fi
+
+        # The temp directory is removed on exit, copy the metadata out for callers that compare it
+        if [ -n "$METADATA_OUT_DIR" ]; then
+            mkdir -p "$METADATA_OUT_DIR"
+            [ -f "$INPUT_METADATA" ] && cp "$INPUT_METADATA" "$METADATA_OUT_DIR/input_metadata.cfg"
+            [ -f "$OUTPUT_METADATA" ] && cp "$OUTPUT_METADATA" "$METADATA_OUT_DIR/output_metadata.cfg"
+            print_info "Saved input and output metadata to $METADATA_OUT_DIR"
+        fi
+    else
+        print_error "No gain map found in $INPUT_FILE, nothing to re-encode"
+        exit 1
     fi
 else
     print_error "Failed to decode HDR image"
+    if [ "$INPUT_FORMAT" = "jpg" ] && [ "$SYNTHESIZE" -eq 0 ]; then
+        echo "A JPEG without a gain map has no HDR rendition. Convert the HDR export (AVIF, JPEG XL) instead, with --sdr <file.jpg> to keep your own SDR version"
+    fi
     cat "$TEMP_DIR/decode.log"
     exit 1
 fi
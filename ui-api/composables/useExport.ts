@@ -0,0 +1,192 @@
+import JSZip from 'jszip'
+import type { ChannelValue, ExportManifestEntry, ExportOptions, HdrMetadata, HdrMetadataField, ProcessingFile } from '~/types'
+
+interface UseExportReturn {
+  exportFiles: (files: ProcessingFile[], options: ExportOptions) => Promise<number>
+  formatExportName: (file: ProcessingFile, template: string, index?: number, total?: number) => string
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  includeSdr: false,
+  includeGainMap: false,
+  manifest: 'none',
+  nameTemplate: '{name}_iso',
+}
+
+// Metadata columns of the CSV manifest, in the order of the metadata editor
+const METADATA_FIELDS: HdrMetadataField[] = [
+  'maxContentBoost',
+  'minContentBoost',
+  'gamma',
+  'offsetSdr',
+  'offsetHdr',
+  'hdrCapacityMin',
+  'hdrCapacityMax',
+  'useBaseColorSpace',
+]
+
+// Characters not allowed in file names on common file systems, besides the control characters
+const RESERVED_NAME_CHARS = new Set('\\/:*?"<>|')
+
+function isUnsafeNameChar(char: string): boolean {
+  return RESERVED_NAME_CHARS.has(char) || char.charCodeAt(0) < 0x20
+}
+
+/**
+ * Convert blob URL to actual blob
+ */
+async function blobUrlToBlob(url: string): Promise<Blob> {
+  const response = await fetch(url)
+  return response.blob()
+}
+
+/**
+ * Width and height of an image, undefined when the browser cannot decode it
+ */
+async function getImageDimensions(blob: Blob): Promise<{ width: number, height: number } | undefined> {
+  try {
+    const bitmap = await createImageBitmap(blob)
+    const dimensions = { width: bitmap.width, height: bitmap.height }
+    bitmap.close()
+    return dimensions
+  }
+  catch {
+    return undefined
+  }
+}
+
+function formatChannelValue(value: ChannelValue | number | undefined): string {
+  if (value === undefined) return ''
+  return Array.isArray(value) ? value.join(' ') : String(value)
+}
+
+function escapeCsv(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One row per converted file; per-channel metadata is written as space-separated values
+ */
+function toCsv(entries: ExportManifestEntry[]): string {
+  const metadataColumns = (metadata?: HdrMetadata) =>
+    METADATA_FIELDS.map(field => formatChannelValue(metadata?.[field]))
+  const header = [
+    'source', 'final_jpg', 'sdr_image', 'gain_map', 'preset', 'mode', 'verdict', 'compliance',
+    'original_width', 'original_height', 'output_width', 'output_height',
+    'original_size', 'output_size', 'sdr_size', 'gain_map_size',
+    ...METADATA_FIELDS.map(field => `input_${field}`),
+    ...METADATA_FIELDS.map(field => `output_${field}`),
+  ]
+  const rows = entries.map(entry => [
+    entry.source,
+    entry.files.finalJpg,
+    entry.files.sdrImage,
+    entry.files.gainMap,
+    entry.preset,
+    entry.mode,
+    entry.verdict,
+    entry.compliance,
+    entry.dimensions.original?.width,
+    entry.dimensions.original?.height,
+    entry.dimensions.output?.width,
+    entry.dimensions.output?.height,
+    entry.sizes.original,
+    entry.sizes.output,
+    entry.sizes.sdrImage,
+    entry.sizes.gainMap,
+    ...metadataColumns(entry.metadataInput),
+    ...metadataColumns(entry.metadataOutput),
+  ])
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n')
+}
+
+export function useExport(): UseExportReturn {
+  const settingsStore = useSettingsStore()
+
+  /**
+   * Base name (without extension) of a converted file from a template such as `{name}_{preset}_{date}`
+   */
+  const formatExportName = (file: ProcessingFile, template: string, index = 0, total = 1): string => {
+    const values: Record<string, string> = {
+      name: file.name.replace(/\.[^/.]+$/, ''),
+      preset: file.result?.preset ?? file.preset ?? settingsStore.batchPresetId,
+      mode: file.result?.mode ?? file.mode ?? 'convert',
+      // Results saved before the conversion date was recorded fall back to today
+      date: new Date(file.result?.convertedAt ?? Date.now()).toISOString().split('T')[0]!,
+      index: String(index + 1).padStart(String(total).length, '0'),
+    }
+    const name = template.replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token).trim() || values.name!
+    return [...name].map(char => isUnsafeNameChar(char) ? '_' : char).join('')
+  }
+
+  /**
+   * Build a ZIP of the converted files with the selected renditions and manifest, and download it.
+   * Returns the number of converted files in the archive.
+   */
+  const exportFiles = async (files: ProcessingFile[], options: ExportOptions): Promise<number> => {
+    const zip = new JSZip()
+    const usedNames = new Set<string>()
+    const entries: ExportManifestEntry[] = []
+
+    for (const [index, file] of files.entries()) {
+      const result = file.result
+      if (!result?.finalJpg) continue
+
+      const finalName = getUniqueFileName(`${formatExportName(file, options.nameTemplate, index, files.length)}.jpg`, usedNames)
+      const baseName = finalName.replace(/\.jpg$/, '')
+      const finalBlob = await blobUrlToBlob(result.finalJpg)
+      zip.file(finalName, finalBlob)
+
+      const entry: ExportManifestEntry = {
+        source: file.name,
+        files: { finalJpg: finalName },
+        preset: result.preset,
+        mode: result.mode ?? 'convert',
+        verdict: file.hdrInfo?.verdict,
+        compliance: result.compliance?.status,
+        dimensions: {
+          original: file.dimensions,
+          output: await getImageDimensions(finalBlob),
+        },
+        sizes: {
+          original: result.originalSize,
+          output: result.processedSize,
+          sdrImage: result.sdrSize,
+          gainMap: result.gainMapSize,
+        },
+        metadataInput: result.metadataOriginal,
+        metadataOutput: result.metadataProcessed,
+      }
+
+      if (options.includeSdr && result.sdrImage) {
+        entry.files.sdrImage = getUniqueFileName(`${baseName}_sdr.jpg`, usedNames)
+        zip.file(entry.files.sdrImage, await blobUrlToBlob(result.sdrImage))
+      }
+      if (options.includeGainMap && result.gainMapImage) {
+        entry.files.gainMap = getUniqueFileName(`${baseName}_gainmap.jpg`, usedNames)
+        zip.file(entry.files.gainMap, await blobUrlToBlob(result.gainMapImage))
+      }
+      entries.push(entry)
+    }
+
+    if (options.manifest === 'json') {
+      zip.file('manifest.json', JSON.stringify({ exportedAt: new Date().toISOString(), files: entries }, null, 2))
+    }
+    else if (options.manifest === 'csv') {
+      zip.file('manifest.csv', toCsv(entries))
+    }
+
+    const zipUrl = URL.createObjectURL(await zip.generateAsync({ type: 'blob' }))
+    const timestamp = new Date().toISOString().split('T')[0]
+    downloadUrl(zipUrl, `hdr-converted-images-${timestamp}.zip`)
+    URL.revokeObjectURL(zipUrl)
+
+    return entries.length
+  }
+
+  return {
+    exportFiles,
+    formatExportName,
+  }
+}
@@ -1,10 +1,36 @@
-import type { ProcessingFile, ConversionResult, ProcessResult } from '~/types'
+import type { ConversionMode, ConversionPreset, ImageFileType, ProcessingFile, JobProgressEvent, JobState, PresetId, ProcessResult, ResultFile } from '~/types'
 
 interface UseFileProcessorReturn {
   addFiles: (fileList: FileList | File[]) => Promise<void>
   removeFile: (fileId: string) => void
   clearFiles: () => void
   processAllFiles: (toast: any) => Promise<void>
+  cancelFile: (fileId: string) => void
+  cancelAll: () => void
+  retryFile: (fileId: string, toast: any) => Promise<void>
+  retryFailed: (toast: any) => Promise<void>
+  getFilePreset: (file: ProcessingFile) => ConversionPreset | undefined
+  setFilePreset: (fileId: string, presetId: PresetId | undefined) => void
+  setBatchPreset: (presetId: PresetId) => void
+  setFileResize: (fileId: string, resizeTo: number | undefined) => void
+  setFileMode: (fileId: string, mode: ConversionMode) => void
+  setFileSdr: (fileId: string, sdrFile: File | undefined) => void
+}
+
+// Interval between job status polls
+const JOB_POLL_INTERVAL_MS = 1000
+
+// Abort handles of the conversions in flight, shared by every component using the composable
+const activeControllers = new Map<string, AbortController>()
+
+/**
+ * Detect the input image type from the file name
+ */
+function getFileType(fileName: string): ImageFileType {
+  const name = fileName.toLowerCase()
+  if (name.endsWith('.avif')) return 'avif'
+  if (name.endsWith('.jxl')) return 'jxl'
+  return 'jpeg'
 }
 
 /**
@@ -26,6 +52,8 @@ function trackGAAnalytics(eventName: string, parameters?: Record<string, any>) {
 export function useFileProcessor(): UseFileProcessorReturn {
   const filesStore = useFilesStore()
   const logsStore = useLogsStore()
+  const settingsStore = useSettingsStore()
+  const historyStore = useHistoryStore()
 
   /**
    * Generate a unique file ID
@@ -34,20 +62,6 @@ export function useFileProcessor(): UseFileProcessorReturn {
     return `file_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
   }
 
-  /**
-   * Format file size in human-readable format
-   */
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes'
-
-    const k = 1024
-    const sizes = ['Bytes', 'KB', 'MB', 'GB']
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    const size = (bytes / k ** i).toFixed(2)
-
-    return `${size} ${sizes[i]}`
-  }
-
   /**
    * Read file data as ArrayBuffer
    */
@@ -97,11 +111,11 @@ export function useFileProcessor(): UseFileProcessorReturn {
   }
 
   /**
-   * Validate file is AVIF or JPEG
+   * Validate file is AVIF, JPEG or JPEG XL
    */
   const validateImageFile = (file: File): boolean => {
-    const validTypes = ['image/avif', 'image/jpeg', 'image/jpg']
-    const validExtensions = ['.avif', '.jpg', '.jpeg']
+    const validTypes = ['image/avif', 'image/jpeg', 'image/jpg', 'image/jxl']
+    const validExtensions = ['.avif', '.jpg', '.jpeg', '.jxl']
 
     const hasValidType = validTypes.includes(file.type)
     const hasValidExtension = validExtensions.some(ext =>
@@ -119,21 +133,137 @@ export function useFileProcessor(): UseFileProcessorReturn {
       const formData = new FormData()
       formData.append('file', file)
 
-      const response = await $fetch<import('~/types').HdrValidationInfo>('/api/validate-hdr', {
+      const response = await apiFetch<import('~/types').HdrValidationInfo>('/api/validate-hdr', {
         method: 'POST',
         body: formData,
+        onRateLimited: retryAfter => logsStore.add(`Rate limited, validating ${file.name} again in ${retryAfter}s...`, 'warning'),
       })
 
       return response
     } catch (error: any) {
+      // Formats the pipeline cannot read are answered with 415, the file is rejected rather than unverified
+      if (error?.statusCode === 415) {
+        const message = error.data?.message || 'Unsupported file format'
+        return {
+          isHDR: false,
+          verdict: 'unknown',
+          confidence: 'high',
+          reason: message,
+          fileType: getFileType(file.name),
+          error: message,
+          errorCode: error.data?.data?.code,
+          detectedFormat: error.data?.data?.detectedFormat,
+          details: message,
+        }
+      }
       return {
         isHDR: false,
-        fileType: file.name.toLowerCase().endsWith('.avif') ? 'avif' : 'jpeg',
+        verdict: 'unknown',
+        confidence: 'low',
+        reason: `Validation request failed: ${error.message}`,
+        fileType: getFileType(file.name),
         details: `Validation failed: ${error.message}`,
       }
     }
   }
 
+  /**
+   * Preset a file is converted with: its own choice or the batch preset
+   */
+  const getFilePreset = (file: ProcessingFile): ConversionPreset | undefined => {
+    return settingsStore.getPreset(file.preset ?? settingsStore.batchPresetId)
+  }
+
+  /**
+   * Recompute whether a file exceeds its preset's maximum dimension
+   */
+  const refreshSizeWarning = (fileId: string): boolean => {
+    const file = filesStore.files.find(f => f.id === fileId)
+    if (!file?.dimensions) return false
+
+    const maxDimension = getFilePreset(file)?.maxDimension
+    const longEdge = Math.min(
+      Math.max(file.dimensions.width, file.dimensions.height),
+      file.resizeTo ?? Number.POSITIVE_INFINITY,
+    )
+    const sizeWarning = !!maxDimension && longEdge > maxDimension
+    filesStore.updateFile(fileId, { sizeWarning })
+    return sizeWarning
+  }
+
+  /**
+   * Ask the server to scale a file down to the given long edge (undefined keeps the original size)
+   */
+  const setFileResize = (fileId: string, resizeTo: number | undefined): void => {
+    const file = filesStore.files.find(f => f.id === fileId)
+    if (!file) return
+
+    filesStore.updateFile(fileId, { resizeTo })
+    refreshSizeWarning(fileId)
+    logsStore.add(
+      resizeTo
+        ? `${file.name} will be resized to fit ${resizeTo}px, keeping the gain map`
+        : `${file.name} will keep its original size`,
+      'info',
+    )
+  }
+
+  /**
+   * Choose a preset for a single file (undefined follows the batch preset)
+   */
+  const setFilePreset = (fileId: string, presetId: PresetId | undefined): void => {
+    filesStore.updateFile(fileId, { preset: presetId })
+    refreshSizeWarning(fileId)
+  }
+
+  /**
+   * Keep the input's gain map or synthesize a new one (dropping any paired SDR image)
+   */
+  const setFileMode = (fileId: string, mode: ConversionMode): void => {
+    const file = filesStore.files.find(f => f.id === fileId)
+    if (!file) return
+
+    filesStore.updateFile(fileId, { mode, sdrFile: mode === 'synthesize' ? file.sdrFile : undefined })
+    logsStore.add(
+      mode === 'synthesize'
+        ? `${file.name} will get a newly synthesized gain map`
+        : `${file.name} will keep its own gain map`,
+      'info',
+    )
+  }
+
+  /**
+   * Pair an SDR JPEG with a file's HDR source (undefined lets the server tone-map the SDR base)
+   */
+  const setFileSdr = (fileId: string, sdrFile: File | undefined): void => {
+    const file = filesStore.files.find(f => f.id === fileId)
+    if (!file) return
+
+    if (sdrFile && !/\.jpe?g$/i.test(sdrFile.name) && sdrFile.type !== 'image/jpeg') {
+      logsStore.add(`${sdrFile.name} is not a JPEG and cannot be used as the SDR base`, 'error')
+      return
+    }
+
+    filesStore.updateFile(fileId, { mode: 'synthesize', sdrFile })
+    logsStore.add(
+      sdrFile
+        ? `${file.name} will use ${sdrFile.name} as its SDR base`
+        : `${file.name} will use a tone-mapped SDR base`,
+      'info',
+    )
+  }
+
+  /**
+   * Choose the preset used by files without their own preset
+   */
+  const setBatchPreset = (presetId: PresetId): void => {
+    settingsStore.setBatchPreset(presetId)
+    for (const file of filesStore.files) {
+      refreshSizeWarning(file.id)
+    }
+    logsStore.add(`Target platform: ${settingsStore.batchPreset?.name ?? presetId}`, 'info')
+  }
+
   /**
    * Add files to the processing queue
    */
@@ -150,10 +280,18 @@ export function useFileProcessor(): UseFileProcessorReturn {
     const sizeWarnings: string[] = []
     const hdrWarnings: string[] = []
 
+    // Size limits come from the target platform presets
+    try {
+      await settingsStore.loadPresets()
+    }
+    catch (error: any) {
+      logsStore.add(`Could not load presets, skipping size checks: ${error.message}`, 'warning')
+    }
+
     for (const file of fileArray) {
-      // Validate image file (AVIF or JPEG)
+      // Validate image file (AVIF, JPEG or JXL)
       if (!validateImageFile(file)) {
-        logsStore.add(`✗ Skipped ${file.name}: Only AVIF and JPEG files are supported`, 'error')
+        logsStore.add(`✗ Skipped ${file.name}: Only AVIF, JPEG and JXL files are supported`, 'error')
         continue
       }
 
@@ -176,23 +314,20 @@ export function useFileProcessor(): UseFileProcessorReturn {
       try {
         // Get image dimensions first
         const dimensions = await getImageDimensions(file)
-        const maxDimension = Math.max(dimensions.width, dimensions.height)
-        const sizeWarning = maxDimension > 1080
+        filesStore.updateFile(fileId, { dimensions })
 
-        filesStore.updateFile(fileId, {
-          dimensions,
-          sizeWarning,
-        })
+        const preset = getFilePreset(fileObj)
+        const sizeWarning = refreshSizeWarning(fileId)
 
         if (sizeWarning) {
           logsStore.add(
-            `⚠️ ${file.name}: ${dimensions.width}x${dimensions.height}px exceeds 1080px - Instagram may resize and remove HDR gain map!`,
+            `⚠️ ${file.name}: ${dimensions.width}x${dimensions.height}px exceeds ${preset!.maxDimension}px - ${preset!.name} may resize and remove HDR gain map!`,
             'warning'
           )
           sizeWarnings.push(file.name)
         } else {
           logsStore.add(
-            `✓ ${file.name}: ${dimensions.width}x${dimensions.height}px (within Instagram limits)`,
+            `✓ ${file.name}: ${dimensions.width}x${dimensions.height}px (within ${preset?.name ?? 'preset'} limits)`,
             'info'
           )
         }
@@ -205,9 +340,22 @@ export function useFileProcessor(): UseFileProcessorReturn {
           hdrInfo,
         })
 
-        if (!hdrInfo.isHDR) {
+        // The server sniffs the header bytes, so a renamed file is rejected here
+        if (hdrInfo.errorCode === 'UNSUPPORTED_FORMAT') {
+          filesStore.updateFile(fileId, {
+            status: 'error',
+            error: hdrInfo.error || 'Unsupported file format',
+          })
+          logsStore.add(`✗ ${file.name}: ${hdrInfo.error || 'Unsupported file format'}`, 'error')
+          continue
+        }
+
+        if (hdrInfo.verdict === 'unknown') {
+          // Could not be checked, which is not the same as being SDR
+          logsStore.add(`⚠️ ${file.name}: Could not verify HDR - ${hdrInfo.reason}`, 'warning')
+        } else if (!hdrInfo.isHDR) {
           logsStore.add(
-            `⚠️ ${file.name}: ${hdrInfo.details || 'Not an HDR image'} - Will not produce proper HDR output!`,
+            `⚠️ ${file.name}: ${hdrInfo.details || 'Not an HDR image'} (${hdrInfo.reason}) - Will not produce proper HDR output!`,
             'warning'
           )
           hdrWarnings.push(file.name)
@@ -240,7 +388,7 @@ export function useFileProcessor(): UseFileProcessorReturn {
     if (sizeWarnings.length > 0) {
       toast.add({
         title: 'Image Size Warning',
-        description: `${sizeWarnings.length} image(s) exceed 1080px. Instagram may resize and remove HDR gain map.`,
+        description: `${sizeWarnings.length} image(s) exceed the target platform's size limit. It may resize them and remove the HDR gain map.`,
         icon: 'i-lucide-alert-triangle',
         color: 'warning',
       })
@@ -279,132 +427,211 @@ export function useFileProcessor(): UseFileProcessorReturn {
   }
 
   /**
-   * Convert base64 to blob URL
+   * Download a result file from the server into a blob URL
    */
-  const base64ToBlob = (base64: string, mimeType: string): string => {
-    const byteCharacters = atob(base64)
-    const byteNumbers = new Array(byteCharacters.length)
-
-    for (let i = 0; i < byteCharacters.length; i++) {
-      byteNumbers[i] = byteCharacters.charCodeAt(i)
+  const fetchResultFile = async (file: ResultFile, signal?: AbortSignal): Promise<string> => {
+    const blob = await apiFetch<Blob>(file.url, { responseType: 'blob', signal })
+    if (blob.size !== file.size) {
+      throw new Error(`Incomplete download of ${file.url}: ${blob.size} of ${file.size} bytes`)
     }
-
-    const byteArray = new Uint8Array(byteNumbers)
-    const blob = new Blob([byteArray], { type: mimeType })
     return URL.createObjectURL(blob)
   }
 
   /**
-   * Extract SDR image from JPG using canvas (browser decoding)
-   * The browser automatically decodes the base (SDR) image
+   * Stop a conversion job on the server so it frees its queue slot and the API key's job quota
    */
-  const extractSdrFromJpg = async (jpgBlob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image()
-      const url = URL.createObjectURL(jpgBlob)
+  const cancelServerJob = (jobId: string, fileName: string): void => {
+    apiFetch(`/api/jobs/${jobId}`, { method: 'DELETE' }).catch((error: any) => {
+      logsStore.add(`Could not cancel the server job of ${fileName}: ${error?.data?.message || error?.message}`, 'warning')
+    })
+  }
 
-      img.onload = () => {
-        try {
-          const canvas = document.createElement('canvas')
-          canvas.width = img.width
-          canvas.height = img.height
-          const ctx = canvas.getContext('2d')
-
-          if (!ctx) {
-            URL.revokeObjectURL(url)
-            reject(new Error('Failed to get canvas context'))
-            return
-          }
-
-          ctx.drawImage(img, 0, 0)
-
-          canvas.toBlob((blob) => {
-            URL.revokeObjectURL(url)
-            if (blob) {
-              resolve(URL.createObjectURL(blob))
-            } else {
-              reject(new Error('Failed to create blob'))
-            }
-          }, 'image/jpeg', 0.95)
-        } catch (error) {
-          URL.revokeObjectURL(url)
-          reject(error)
-        }
+  /**
+   * Poll a conversion job until it finishes, forwarding new server logs
+   */
+  const waitForJob = async (jobId: string, fileId: string, signal: AbortSignal, loggedCount = 0): Promise<JobState> => {
+    while (true) {
+      const job = await apiFetch<JobState>(`/api/jobs/${jobId}`, { signal })
+
+      job.logs.slice(loggedCount).forEach(log => logsStore.add(log, 'info'))
+      loggedCount = job.logs.length
+
+      filesStore.updateFile(fileId, { progress: job.progress, stage: job.stageLabel })
+
+      if (job.status === 'done' || job.status === 'failed' || job.status === 'cancelled') {
+        return job
       }
 
-      img.onerror = () => {
-        URL.revokeObjectURL(url)
-        reject(new Error('Failed to load image'))
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+      signal.throwIfAborted()
+    }
+  }
+
+  /**
+   * Follow a conversion job over Server-Sent Events until it finishes.
+   * Falls back to polling if the event stream is interrupted, and stops listening when the signal aborts.
+   */
+  const followJob = (jobId: string, fileId: string, signal: AbortSignal): Promise<JobState> => {
+    return new Promise((resolve, reject) => {
+      let loggedCount = 0
+      // EventSource cannot send headers, the key goes in the query string
+      const source = new EventSource(withApiKey(`/api/jobs/${jobId}/events`))
+
+      const onAbort = (): void => {
+        source.close()
+        reject(signal.reason)
       }
+      signal.addEventListener('abort', onAbort, { once: true })
 
-      img.src = url
+      source.addEventListener('snapshot', (event) => {
+        const job = JSON.parse(event.data) as JobState
+        job.logs.slice(loggedCount).forEach(log => logsStore.add(log, 'info'))
+        loggedCount = job.logs.length
+        filesStore.updateFile(fileId, { progress: job.progress, stage: job.stageLabel })
+      })
+
+      source.addEventListener('progress', (event) => {
+        const update = JSON.parse(event.data) as JobProgressEvent
+        logsStore.add(update.message, update.level)
+        loggedCount++
+        filesStore.updateFile(fileId, { progress: update.progress, stage: update.stageLabel })
+      })
+
+      source.addEventListener('finished', (event) => {
+        source.close()
+        signal.removeEventListener('abort', onAbort)
+        resolve(JSON.parse(event.data) as JobState)
+      })
+
+      source.onerror = () => {
+        source.close()
+        signal.removeEventListener('abort', onAbort)
+        logsStore.add('Progress stream interrupted, falling back to polling...', 'warning')
+        waitForJob(jobId, fileId, signal, loggedCount).then(resolve, reject)
+      }
     })
   }
 
   /**
-   * Process a single file via API
+   * Process a single file via API. Cancelling marks the file as cancelled instead of failing it.
    */
   const processSingleFile = async (
     fileObj: ProcessingFile,
     index: number,
     total: number,
   ): Promise<void> => {
-    if (!fileObj.data) {
-      throw new Error('File not loaded')
-    }
+    const controller = new AbortController()
+    const { signal } = controller
+    activeControllers.set(fileObj.id, controller)
 
     logsStore.add(`[${index + 1}/${total}] 📸 Processing: ${fileObj.name}`, 'info')
     filesStore.updateFile(fileObj.id, {
       status: 'processing',
+      error: null,
       progress: 0,
+      stage: 'Uploading',
+      jobId: undefined,
     })
 
     try {
+      if (!fileObj.data) {
+        throw new Error('File not loaded')
+      }
+
       // Create FormData for upload
       const formData = new FormData()
       formData.append('file', fileObj.file)
 
-      logsStore.add(`Uploading ${fileObj.name} to API...`, 'info')
-      filesStore.updateFile(fileObj.id, { progress: 10 })
+      const presetId = fileObj.preset ?? settingsStore.batchPresetId
+      formData.append('preset', presetId)
 
-      // Call API endpoint
-      const response = await $fetch<ConversionResult>('/api/convert', {
+      if (fileObj.resizeTo) {
+        formData.append('resize', String(fileObj.resizeTo))
+      }
+
+      if (fileObj.mode === 'synthesize') {
+        formData.append('mode', 'synthesize')
+        if (fileObj.sdrFile) {
+          formData.append('sdr', fileObj.sdrFile)
+        }
+      }
+
+      const metadataOverride = settingsStore.metadataOverride
+      if (metadataOverride) {
+        formData.append('metadata', JSON.stringify(metadataOverride))
+        logsStore.add('Using custom gain map metadata', 'info')
+      }
+
+      const encodingOverride = settingsStore.encodingOverride
+      if (encodingOverride) {
+        for (const [field, value] of Object.entries(encodingOverride)) {
+          formData.append(field, String(value))
+        }
+        logsStore.add('Using custom encoding settings', 'info')
+      }
+
+      if (settingsStore.hasColorOverrides) {
+        for (const [field, value] of Object.entries(settingsStore.colorOverrides)) {
+          formData.append(field, value)
+        }
+        logsStore.add('Using custom HDR colour settings', 'info')
+      }
+
+      logsStore.add(`Uploading ${fileObj.name} to API (preset: ${presetId})...`, 'info')
+
+      // Queue a conversion job and wait for it to finish
+      // Rate limited uploads wait for the server's Retry-After instead of failing the file
+      const createdJob = await apiFetch<JobState>('/api/jobs', {
         method: 'POST',
         body: formData,
+        signal,
+        settleOnAbort: true,
+        onRateLimited: (retryAfter) => {
+          logsStore.add(`Rate limited, uploading ${fileObj.name} again in ${retryAfter}s...`, 'warning')
+          filesStore.updateFile(fileObj.id, { stage: `Waiting ${retryAfter}s for the rate limit` })
+        },
       })
 
-      // Log API logs
-      if (response.logs) {
-        response.logs.forEach(log => logsStore.add(log, 'info'))
+      filesStore.updateFile(fileObj.id, { jobId: createdJob.id })
+      logsStore.add(`Conversion job queued: ${createdJob.id}`, 'info')
+      // Cancelled during the upload, before the job ID was known: stop the job that was created meanwhile
+      if (signal.aborted) {
+        cancelServerJob(createdJob.id, fileObj.name)
+      }
+      signal.throwIfAborted()
+      const job = await followJob(createdJob.id, fileObj.id, signal)
+
+      // Cancelled on the server, e.g. from another tab
+      if (job.status === 'cancelled') {
+        controller.abort()
       }
+      signal.throwIfAborted()
+
+      const response = job.result
 
-      if (!response.success || !response.outputJpg) {
-        throw new Error(response.error || 'Conversion failed')
+      if (job.status === 'failed' || !response?.success || !response.outputJpg) {
+        throw new Error(job.error || response?.error || 'Conversion failed')
       }
 
       logsStore.add('Conversion completed, processing results...', 'success')
-      filesStore.updateFile(fileObj.id, { progress: 80 })
 
-      // Convert base64 results to blob URLs
-      const finalJpgBlob = base64ToBlob(response.outputJpg, 'image/jpeg')
+      // Download the result files into blob URLs
+      const finalJpgBlob = await fetchResultFile(response.outputJpg, signal)
       const originalAvifUrl = URL.createObjectURL(fileObj.file)
 
-      // Extract or use provided SDR image
-      let sdrImageUrl: string
+      // SDR base image exactly as stored in the output
+      let sdrImageUrl = ''
       if (response.sdrImage) {
-        sdrImageUrl = base64ToBlob(response.sdrImage, 'image/jpeg')
+        sdrImageUrl = await fetchResultFile(response.sdrImage, signal)
         logsStore.add('Using server-extracted SDR image', 'info')
       } else {
-        // Extract SDR from final JPG using browser
-        logsStore.add('Extracting SDR image using browser decoder...', 'info')
-        const jpgBlob = await fetch(finalJpgBlob).then(r => r.blob())
-        sdrImageUrl = await extractSdrFromJpg(jpgBlob)
+        logsStore.add('SDR image not available from server', 'warning')
       }
 
       // Use provided gain map or placeholder
       let gainMapUrl: string
       if (response.gainMap) {
-        gainMapUrl = base64ToBlob(response.gainMap, 'image/jpeg')
+        gainMapUrl = await fetchResultFile(response.gainMap, signal)
         logsStore.add('Using server-extracted gain map', 'info')
       } else {
         // Create placeholder or empty image
@@ -412,26 +639,43 @@ export function useFileProcessor(): UseFileProcessorReturn {
         logsStore.add('Gain map not available from server', 'warning')
       }
 
+      // False-colour gain map heat map (optional, needs ImageMagick on the server)
+      const gainMapHeatmapUrl = response.gainMapHeatmap
+        ? await fetchResultFile(response.gainMapHeatmap, signal)
+        : undefined
+
       const result: ProcessResult = {
         success: true,
         originalImage: originalAvifUrl,
         finalJpg: finalJpgBlob,
         sdrImage: sdrImageUrl,
         gainMapImage: gainMapUrl,
+        gainMapHeatmapImage: gainMapHeatmapUrl,
+        gainMapLegend: response.gainMapLegend,
         originalSize: fileObj.size,
-        processedSize: Math.round(response.outputJpg.length * 0.75), // Approximate from base64
-        metadata: response.metadata,
+        processedSize: response.outputJpg.size,
+        sdrSize: response.sdrImage?.size,
+        gainMapSize: response.gainMap?.size,
+        metadataOriginal: response.metadataOriginal,
+        metadataProcessed: response.metadata,
+        preset: response.preset,
+        mode: response.mode,
+        encoding: response.encoding,
+        color: response.color,
+        compliance: response.compliance,
+        convertedAt: job.finishedAt ?? Date.now(),
       }
 
       filesStore.updateFile(fileObj.id, {
         status: 'completed',
         progress: 100,
+        stage: undefined,
         result,
       })
 
       // Track successful conversion
       trackGAAnalytics('hdr_conversion_success', {
-        file_type: fileObj.name.toLowerCase().includes('.avif') ? 'avif' : 'jpeg',
+        file_type: getFileType(fileObj.name),
         file_size: Math.round(fileObj.size / 1024), // KB
         conversion_time: Date.now() - (fileObj.createdAt || Date.now()),
         event_category: 'hdr_conversion',
@@ -440,111 +684,239 @@ export function useFileProcessor(): UseFileProcessorReturn {
 
       logsStore.add(`[${index + 1}/${total}] ✅ Completed: ${fileObj.name}`, 'success')
     } catch (error: any) {
-      const errorMsg = error?.message || error?.data?.message || 'Unknown error'
+      if (signal.aborted) {
+        logsStore.add(`[${index + 1}/${total}] ⏹️ Cancelled: ${fileObj.name}`, 'warning')
+        filesStore.updateFile(fileObj.id, {
+          status: 'cancelled',
+          progress: 0,
+          stage: undefined,
+        })
+        return
+      }
+
+      const errorMsg = error?.data?.message || error?.message || 'Unknown error'
       logsStore.add(`✗ Error processing ${fileObj.name}: ${errorMsg}`, 'error')
 
       filesStore.updateFile(fileObj.id, {
         status: 'error',
         error: errorMsg,
         progress: 0,
+        stage: undefined,
       })
 
       // Track conversion error
       trackGAAnalytics('hdr_conversion_error', {
-        file_type: fileObj.name.toLowerCase().includes('.avif') ? 'avif' : 'jpeg',
+        file_type: getFileType(fileObj.name),
         error_message: errorMsg.substring(0, 100), // Limit error message length
         event_category: 'hdr_conversion',
       })
 
       throw error
+    } finally {
+      activeControllers.delete(fileObj.id)
     }
   }
 
   /**
-   * Process all files in the queue
+   * Convert the queued files, running up to `settingsStore.concurrency` conversions at a time.
+   * Files queued while a batch runs (retries) are picked up by its workers.
    */
-  const processAllFiles = async (toast: any): Promise<void> => {
-    const filesStore = useFilesStore()
-
-    if (filesStore.files.length === 0) {
-      logsStore.add('No files selected', 'error')
-      toast.add({
-        title: 'No Files',
-        description: 'Please upload AVIF files first',
-        icon: 'i-lucide-alert-circle',
-        color: 'warning',
-      })
-      return
-    }
-
-    const readyFiles = filesStore.files.filter(f => f.status === 'ready')
-    if (readyFiles.length === 0) {
-      logsStore.add('No files ready for processing', 'error')
-      toast.add({
-        title: 'No Ready Files',
-        description: 'All files are either pending, processing, or completed',
-        icon: 'i-lucide-alert-circle',
-        color: 'warning',
-      })
+  const runBatch = async (toast: any): Promise<void> => {
+    if (filesStore.isProcessing) {
       return
     }
 
+    const concurrency = settingsStore.concurrency
     logsStore.add('=== Starting Batch Processing ===', 'info')
-    logsStore.add(`Processing ${readyFiles.length} file(s)...`, 'info')
+    logsStore.add(`Processing ${filesStore.queuedCount} file(s), ${concurrency} at a time...`, 'info')
 
     // Track batch processing start
     trackGAAnalytics('batch_conversion_start', {
-      file_count: readyFiles.length,
+      file_count: filesStore.queuedCount,
+      concurrency,
       event_category: 'hdr_conversion',
     })
 
     filesStore.setProcessing(true)
+    let startedCount = 0
     let successCount = 0
     let errorCount = 0
+    let cancelledCount = 0
+
+    const runWorker = async (): Promise<void> => {
+      let next: ProcessingFile | undefined
+      while ((next = filesStore.queuedFiles[0])) {
+        startedCount++
+        try {
+          // Marks the file as processing before it yields, so no other worker takes it
+          await processSingleFile(next, startedCount - 1, startedCount + filesStore.queuedCount - 1)
+        } catch (error) {
+          // Already logged and recorded on the file
+        }
 
-    for (let i = 0; i < readyFiles.length; i++) {
-      const fileObj = readyFiles[i]
-      if (!fileObj) continue
+        const file = filesStore.files.find(f => f.id === next!.id)
+        if (file?.status === 'completed') successCount++
+        else if (file?.status === 'cancelled') cancelledCount++
+        else errorCount++
 
-      try {
-        await processSingleFile(fileObj, i, readyFiles.length)
-        successCount++
-      } catch (error) {
-        errorCount++
+        if (file) {
+          void historyStore.record(file, file.preset ?? settingsStore.batchPresetId)
+        }
       }
     }
 
+    await Promise.all(Array.from({ length: concurrency }, runWorker))
+
     logsStore.add('=== Batch Processing Complete ===', 'success')
     logsStore.add(`✓ Success: ${successCount} file(s)`, 'success')
 
     if (errorCount > 0) {
       logsStore.add(`✗ Errors: ${errorCount} file(s)`, 'error')
     }
+    if (cancelledCount > 0) {
+      logsStore.add(`⏹️ Cancelled: ${cancelledCount} file(s)`, 'warning')
+    }
 
     // Track batch completion
     trackGAAnalytics('batch_conversion_complete', {
-      total_files: readyFiles.length,
+      total_files: startedCount,
       successful_conversions: successCount,
       failed_conversions: errorCount,
-      success_rate: Math.round((successCount / readyFiles.length) * 100),
+      cancelled_conversions: cancelledCount,
+      success_rate: startedCount > 0 ? Math.round((successCount / startedCount) * 100) : 0,
       event_category: 'hdr_conversion',
       value: successCount,
     })
 
+    const problems = [
+      errorCount > 0 ? `${errorCount} errors` : '',
+      cancelledCount > 0 ? `${cancelledCount} cancelled` : '',
+    ].filter(Boolean)
     toast.add({
       title: 'Processing Complete',
-      description: `${successCount} files processed successfully${errorCount > 0 ? `, ${errorCount} errors` : ''}`,
+      description: `${successCount} files processed successfully${problems.length > 0 ? `, ${problems.join(', ')}` : ''}`,
       icon: 'i-lucide-check-circle',
-      color: errorCount > 0 ? 'warning' : 'success',
+      color: errorCount > 0 || cancelledCount > 0 ? 'warning' : 'success',
     })
 
     filesStore.setProcessing(false)
   }
 
+  /**
+   * Queue a file for conversion, clearing the outcome of a previous attempt
+   */
+  const queueFile = (fileId: string): void => {
+    filesStore.updateFile(fileId, {
+      status: 'queued',
+      error: null,
+      progress: 0,
+      stage: undefined,
+      jobId: undefined,
+      result: undefined,
+    })
+  }
+
+  /**
+   * Process all files in the queue
+   */
+  const processAllFiles = async (toast: any): Promise<void> => {
+    if (filesStore.files.length === 0) {
+      logsStore.add('No files selected', 'error')
+      toast.add({
+        title: 'No Files',
+        description: 'Please upload AVIF files first',
+        icon: 'i-lucide-alert-circle',
+        color: 'warning',
+      })
+      return
+    }
+
+    const readyFiles = filesStore.readyFiles
+    if (readyFiles.length === 0) {
+      logsStore.add('No files ready for processing', 'error')
+      toast.add({
+        title: 'No Ready Files',
+        description: 'All files are either pending, processing, or completed',
+        icon: 'i-lucide-alert-circle',
+        color: 'warning',
+      })
+      return
+    }
+
+    readyFiles.forEach(file => queueFile(file.id))
+    await runBatch(toast)
+  }
+
+  /**
+   * Cancel a queued or running conversion; a running one is also stopped on the server
+   */
+  const cancelFile = (fileId: string): void => {
+    const file = filesStore.files.find(f => f.id === fileId)
+    if (!file) return
+
+    if (file.status === 'queued') {
+      filesStore.updateFile(fileId, { status: 'cancelled' })
+      logsStore.add(`⏹️ Cancelled ${file.name} before it started`, 'warning')
+      return
+    }
+
+    const controller = activeControllers.get(fileId)
+    if (file.status !== 'processing' || !controller) return
+
+    controller.abort()
+    // Without a job ID the upload is still in flight, processFile cancels the job once it is created
+    if (file.jobId) {
+      cancelServerJob(file.jobId, file.name)
+    }
+  }
+
+  /**
+   * Cancel every queued and running conversion
+   */
+  const cancelAll = (): void => {
+    // Queued files first, so no worker starts one of them while the running ones stop
+    filesStore.queuedFiles.forEach(file => cancelFile(file.id))
+    filesStore.processingFiles.forEach(file => cancelFile(file.id))
+  }
+
+  /**
+   * Convert a failed or cancelled file again, joining the running batch if there is one
+   */
+  const retryFile = async (fileId: string, toast: any): Promise<void> => {
+    const file = filesStore.retryableFiles.find(f => f.id === fileId)
+    if (!file) return
+
+    logsStore.add(`Retrying ${file.name}...`, 'info')
+    queueFile(fileId)
+    await runBatch(toast)
+  }
+
+  /**
+   * Convert every failed or cancelled file again
+   */
+  const retryFailed = async (toast: any): Promise<void> => {
+    const files = filesStore.retryableFiles
+    if (files.length === 0) return
+
+    logsStore.add(`Retrying ${files.length} file(s)...`, 'info')
+    files.forEach(file => queueFile(file.id))
+    await runBatch(toast)
+  }
+
   return {
     addFiles,
     removeFile,
     clearFiles,
     processAllFiles,
+    cancelFile,
+    cancelAll,
+    retryFile,
+    retryFailed,
+    getFilePreset,
+    setFilePreset,
+    setBatchPreset,
+    setFileResize,
+    setFileMode,
+    setFileSdr,
   }
 }
@@ -0,0 +1,438 @@
+import type { HistoryEntry, HistoryResult, HistoryStatus, LogEntry, PersistedFile, PersistedResult, PersistedResultImage, PresetId, ProcessingFile, ProcessResult, StorageUsage } from '~/types'
+
+interface UsePersistenceReturn {
+  restore: () => Promise<void>
+  startSync: () => void
+  clearHistory: () => Promise<void>
+  getStorageUsage: () => Promise<StorageUsage | null>
+  recordHistory: (file: ProcessingFile, preset: PresetId) => Promise<HistoryEntry | null>
+  getHistoryEntries: () => Promise<HistoryEntry[]>
+  getHistoryResult: (id: string) => Promise<ProcessResult | null>
+  getHistoryImage: (id: string, image: PersistedResultImage) => Promise<Blob | null>
+  deleteHistoryEntries: (ids: string[]) => Promise<void>
+}
+
+const DB_NAME = 'hdr-converter'
+const DB_VERSION = 2
+const FILES_STORE = 'files'
+const LOGS_STORE = 'logs'
+const STATE_STORE = 'state' // Key-value store for small store snapshots
+const HISTORY_STORE = 'history' // HistoryEntry list, small enough to load at once
+const HISTORY_RESULTS_STORE = 'historyResults' // HistoryResult images, read one entry at a time
+
+// Long edge of the history thumbnails, in pixels
+const THUMBNAIL_SIZE = 160
+
+// Store changes are written in one go once they settle, progress updates arrive many times a second
+const SYNC_DELAY_MS = 500
+
+const RESULT_IMAGES: PersistedResultImage[] = ['finalJpg', 'sdrImage', 'gainMapImage', 'gainMapHeatmapImage']
+
+// Shared by every component using the composable, like the database connection
+let dbPromise: Promise<IDBDatabase> | null = null
+const savedSignatures = new Map<string, string>()
+const savedLogIds = new Set<string>()
+let syncTimer: ReturnType<typeof setTimeout> | undefined
+let syncing = false
+let quotaWarningShown = false
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Resolve once a transaction has been committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Open (and on first use create) the database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      if (event.oldVersion < 1) {
+        db.createObjectStore(FILES_STORE, { keyPath: 'id' })
+        db.createObjectStore(LOGS_STORE, { keyPath: 'id' })
+        db.createObjectStore(STATE_STORE)
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'id' })
+        db.createObjectStore(HISTORY_RESULTS_STORE, { keyPath: 'id' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+/**
+ * Fields whose change means a file has to be written again; progress alone does not
+ */
+function getFileSignature(file: ProcessingFile): string {
+  return JSON.stringify({
+    status: file.status,
+    error: file.error,
+    preset: file.preset,
+    resizeTo: file.resizeTo,
+    mode: file.mode,
+    sdrFile: file.sdrFile?.name,
+    dimensions: file.dimensions,
+    sizeWarning: file.sizeWarning,
+    hdrInfo: file.hdrInfo,
+    result: file.result?.finalJpg,
+  })
+}
+
+/**
+ * Replace the blob: URLs of a result with the Blobs behind them
+ */
+async function toPersistedResult(result: ProcessResult): Promise<PersistedResult> {
+  const { originalImage, finalJpg, sdrImage, gainMapImage, gainMapHeatmapImage, ...rest } = result
+  const images: PersistedResult['images'] = {}
+  for (const field of RESULT_IMAGES) {
+    const url = result[field]
+    if (url) {
+      images[field] = await (await fetch(url)).blob()
+    }
+  }
+  return { ...rest, images }
+}
+
+/**
+ * Rebuild blob: URLs for a stored result
+ */
+function fromPersistedResult(result: PersistedResult, file: File): ProcessResult {
+  const { images, ...rest } = result
+  const url = (field: PersistedResultImage): string => {
+    const blob = images[field]
+    return blob ? URL.createObjectURL(blob) : ''
+  }
+  return {
+    ...rest,
+    originalImage: URL.createObjectURL(file),
+    finalJpg: url('finalJpg'),
+    sdrImage: url('sdrImage'),
+    gainMapImage: url('gainMapImage'),
+    gainMapHeatmapImage: images.gainMapHeatmapImage ? url('gainMapHeatmapImage') : undefined,
+  }
+}
+
+async function toPersistedFile(file: ProcessingFile): Promise<PersistedFile> {
+  const { data, progress, stage, jobId, result, ...rest } = file
+  return {
+    ...rest,
+    result: result ? await toPersistedResult(result) : undefined,
+  }
+}
+
+/**
+ * Turn a stored file back into a queue entry. Conversions cut off by the reload go back to ready,
+ * files that were still being checked can be retried.
+ */
+async function fromPersistedFile(stored: PersistedFile): Promise<ProcessingFile> {
+  const { result, ...rest } = stored
+  const file: ProcessingFile = {
+    ...rest,
+    data: new Uint8Array(await stored.file.arrayBuffer()),
+    progress: stored.status === 'completed' ? 100 : 0,
+    result: result ? fromPersistedResult(result, stored.file) : undefined,
+  }
+
+  if (file.status === 'queued' || file.status === 'processing') {
+    file.status = 'ready'
+  }
+  else if (file.status === 'pending') {
+    file.status = 'error'
+    file.error = 'Loading was interrupted by a page reload'
+  }
+  return file
+}
+
+/**
+ * Scale an image down to a small JPEG for the history list
+ */
+async function createThumbnail(image: Blob): Promise<Blob | undefined> {
+  const bitmap = await createImageBitmap(image)
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  return new Promise(resolve => canvas.toBlob(blob => resolve(blob ?? undefined), 'image/jpeg', 0.8))
+}
+
+/**
+ * Composable for keeping the file queue, results, logs and UI state in IndexedDB across page reloads
+ */
+export function usePersistence(): UsePersistenceReturn {
+  const filesStore = useFilesStore()
+  const logsStore = useLogsStore()
+  const uiStore = useUiStore()
+
+  /**
+   * Load the saved queue, logs and UI state into the stores
+   */
+  const restore = async (): Promise<void> => {
+    const db = await openDatabase()
+    const transaction = db.transaction([FILES_STORE, LOGS_STORE, STATE_STORE], 'readonly')
+    const [storedFiles, storedLogs, uiState] = await Promise.all([
+      promisifyRequest(transaction.objectStore(FILES_STORE).getAll() as IDBRequest<PersistedFile[]>),
+      promisifyRequest(transaction.objectStore(LOGS_STORE).getAll() as IDBRequest<LogEntry[]>),
+      promisifyRequest(transaction.objectStore(STATE_STORE).get('ui')),
+    ])
+
+    if (uiState) {
+      uiStore.$patch(uiState)
+    }
+
+    if (storedLogs.length > 0) {
+      storedLogs.forEach(log => savedLogIds.add(log.id))
+      storedLogs.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      logsStore.$patch({ logs: [...storedLogs, ...logsStore.logs] })
+    }
+
+    // Files are kept in the order they were added
+    storedFiles.sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0) || a.id.localeCompare(b.id))
+    const restored: ProcessingFile[] = []
+    for (const stored of storedFiles) {
+      try {
+        const file = await fromPersistedFile(stored)
+        restored.push(file)
+        savedSignatures.set(file.id, getFileSignature(file))
+      }
+      catch (error: any) {
+        logsStore.add(`Could not restore ${stored.name}: ${error.message}`, 'warning')
+      }
+    }
+    if (restored.length > 0) {
+      filesStore.$patch({ files: [...restored, ...filesStore.files] })
+      logsStore.add(`Restored ${restored.length} file(s) from the previous session`, 'info')
+    }
+  }
+
+  /**
+   * Write changed files, removed files, logs and UI state
+   */
+  const save = async (): Promise<void> => {
+    const db = await openDatabase()
+
+    // Blobs are read before the transaction opens, it would auto-commit while waiting on them
+    const changed: PersistedFile[] = []
+    const signatures = new Map<string, string>()
+    for (const file of filesStore.files) {
+      const signature = getFileSignature(file)
+      signatures.set(file.id, signature)
+      if (savedSignatures.get(file.id) !== signature) {
+        // IndexedDB cannot clone reactive proxies
+        changed.push(await toPersistedFile(toRaw(file)))
+      }
+    }
+    const removed = [...savedSignatures.keys()].filter(id => !signatures.has(id))
+    // Logs are only appended to, or trimmed from the start once there are too many
+    const logs = logsStore.logs
+    const logIds = new Set(logs.map(log => log.id))
+    const newLogs = logs.filter(log => !savedLogIds.has(log.id))
+    const droppedLogIds = [...savedLogIds].filter(id => !logIds.has(id))
+
+    const transaction = db.transaction([FILES_STORE, LOGS_STORE, STATE_STORE], 'readwrite')
+    const filesObjectStore = transaction.objectStore(FILES_STORE)
+    changed.forEach(file => filesObjectStore.put(file))
+    removed.forEach(id => filesObjectStore.delete(id))
+
+    const logsObjectStore = transaction.objectStore(LOGS_STORE)
+    if (logs.length === 0 && droppedLogIds.length > 0) {
+      logsObjectStore.clear()
+    }
+    else {
+      droppedLogIds.forEach(id => logsObjectStore.delete(id))
+    }
+    newLogs.forEach(log => logsObjectStore.put(toRaw(log)))
+
+    transaction.objectStore(STATE_STORE).put(toRaw(uiStore.$state), 'ui')
+    await transactionDone(transaction)
+
+    savedSignatures.clear()
+    signatures.forEach((signature, id) => savedSignatures.set(id, signature))
+    savedLogIds.clear()
+    logIds.forEach(id => savedLogIds.add(id))
+  }
+
+  const scheduleSync = (): void => {
+    clearTimeout(syncTimer)
+    syncTimer = setTimeout(runSync, SYNC_DELAY_MS)
+  }
+
+  const runSync = async (): Promise<void> => {
+    if (syncing) {
+      scheduleSync()
+      return
+    }
+
+    syncing = true
+    try {
+      await save()
+    }
+    catch (error: any) {
+      if (!quotaWarningShown) {
+        quotaWarningShown = true
+        const reason = error?.name === 'QuotaExceededError' ? 'browser storage is full' : error?.message
+        logsStore.add(`Could not save the session for later: ${reason}`, 'warning')
+      }
+    }
+    finally {
+      syncing = false
+    }
+  }
+
+  /**
+   * Save the stores whenever they change
+   */
+  const startSync = (): void => {
+    filesStore.$subscribe(scheduleSync, { detached: true })
+    logsStore.$subscribe(scheduleSync, { detached: true })
+    uiStore.$subscribe(scheduleSync, { detached: true })
+
+    // Ask the browser not to evict the saved results under storage pressure
+    navigator.storage?.persist?.().catch(() => {})
+  }
+
+  /**
+   * Remove every saved file, result, log and history entry, and clear the file list and logs
+   */
+  const clearHistory = async (): Promise<void> => {
+    clearTimeout(syncTimer)
+    filesStore.clearFiles()
+    logsStore.clear()
+    useHistoryStore().reset()
+
+    const db = await openDatabase()
+    const stores = [FILES_STORE, LOGS_STORE, HISTORY_STORE, HISTORY_RESULTS_STORE]
+    const transaction = db.transaction(stores, 'readwrite')
+    stores.forEach(store => transaction.objectStore(store).clear())
+    await transactionDone(transaction)
+    savedSignatures.clear()
+    savedLogIds.clear()
+    quotaWarningShown = false
+  }
+
+  /**
+   * Storage used by the origin and the quota the browser grants it, if the browser reports them
+   */
+  const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) {
+      return null
+    }
+    const { usage, quota } = await navigator.storage.estimate()
+    return usage !== undefined && quota ? { usage, quota } : null
+  }
+
+  /**
+   * Add a finished conversion to the history. Only completed files keep their images.
+   */
+  const recordHistory = async (file: ProcessingFile, preset: PresetId): Promise<HistoryEntry | null> => {
+    if (file.status !== 'completed' && file.status !== 'error' && file.status !== 'cancelled') {
+      return null
+    }
+
+    const raw = toRaw(file)
+    const result = raw.result ? await toPersistedResult(raw.result) : undefined
+    const thumbnailSource = result?.images.sdrImage ?? result?.images.finalJpg
+    const entry: HistoryEntry = {
+      id: `history_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      fileName: raw.name,
+      status: raw.status as HistoryStatus,
+      error: raw.error ?? undefined,
+      finishedAt: Date.now(),
+      preset: raw.result?.preset ?? preset,
+      metadata: raw.result?.metadataProcessed,
+      mode: raw.mode,
+      originalSize: raw.size,
+      processedSize: raw.result?.processedSize,
+      thumbnail: thumbnailSource ? await createThumbnail(thumbnailSource).catch(() => undefined) : undefined,
+    }
+
+    const db = await openDatabase()
+    const transaction = db.transaction([HISTORY_STORE, HISTORY_RESULTS_STORE], 'readwrite')
+    transaction.objectStore(HISTORY_STORE).put(entry)
+    if (result) {
+      const stored: HistoryResult = { id: entry.id, original: raw.file, result }
+      transaction.objectStore(HISTORY_RESULTS_STORE).put(stored)
+    }
+    await transactionDone(transaction)
+    return entry
+  }
+
+  /**
+   * Every history entry, newest first
+   */
+  const getHistoryEntries = async (): Promise<HistoryEntry[]> => {
+    const db = await openDatabase()
+    const transaction = db.transaction(HISTORY_STORE, 'readonly')
+    const entries = await promisifyRequest(transaction.objectStore(HISTORY_STORE).getAll() as IDBRequest<HistoryEntry[]>)
+    return entries.sort((a, b) => b.finishedAt - a.finishedAt)
+  }
+
+  const readHistoryResult = async (id: string): Promise<HistoryResult | undefined> => {
+    const db = await openDatabase()
+    const transaction = db.transaction(HISTORY_RESULTS_STORE, 'readonly')
+    return promisifyRequest(transaction.objectStore(HISTORY_RESULTS_STORE).get(id) as IDBRequest<HistoryResult | undefined>)
+  }
+
+  /**
+   * Result of a completed history entry with fresh blob: URLs, which the caller revokes when done
+   */
+  const getHistoryResult = async (id: string): Promise<ProcessResult | null> => {
+    const stored = await readHistoryResult(id)
+    return stored ? fromPersistedResult(stored.result, stored.original) : null
+  }
+
+  /**
+   * One image of a completed history entry, without creating a URL for it
+   */
+  const getHistoryImage = async (id: string, image: PersistedResultImage): Promise<Blob | null> => {
+    const stored = await readHistoryResult(id)
+    return stored?.result.images[image] ?? null
+  }
+
+  const deleteHistoryEntries = async (ids: string[]): Promise<void> => {
+    const db = await openDatabase()
+    const transaction = db.transaction([HISTORY_STORE, HISTORY_RESULTS_STORE], 'readwrite')
+    for (const id of ids) {
+      transaction.objectStore(HISTORY_STORE).delete(id)
+      transaction.objectStore(HISTORY_RESULTS_STORE).delete(id)
+    }
+    await transactionDone(transaction)
+  }
+
+  return {
+    restore,
+    startSync,
+    clearHistory,
+    getStorageUsage,
+    recordHistory,
+    getHistoryEntries,
+    getHistoryResult,
+    getHistoryImage,
+    deleteHistoryEntries,
+  }
+}
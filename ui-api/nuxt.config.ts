@@ -69,6 +69,27 @@ export default defineNuxtConfig({
   runtimeConfig: {
     // Private keys (only available on server-side)
     googleAnalyticsId: process.env.GOOGLE_ANALYTICS_ID || '',
+    // Server settings below are overridden at runtime by NUXT_<NAME> variables, e.g. NUXT_MAX_CONCURRENT_JOBS.
+    // They are not read from process.env here, which would fix them (and any secret) into the build output.
+    // Maximum number of conversions running at the same time
+    maxConcurrentJobs: 2,
+    // Leftover job workspaces older than this are deleted by the sweeper
+    workspaceTtlMinutes: 60,
+    // Reject /api requests without a valid API key (keys are optional otherwise)
+    apiKeysRequired: false,
+    // JSON file holding the hashed API keys, managed through /api/admin/keys
+    apiKeysFile: '.data/api-keys.json',
+    // Bearer token for /api/admin, the admin API is disabled while empty
+    adminToken: '',
+    // POST requests per minute, per API key and per client IP without a key
+    apiKeyRateLimit: 60,
+    ipRateLimit: 20,
+    // POST requests per minute to /api/validate-hdr and /api/inspect, per API key or client IP
+    analysisRateLimit: 120,
+    // Conversions an API key may have queued or running at the same time
+    apiKeyMaxConcurrentJobs: 2,
+    // Take the client IP from X-Forwarded-For, only behind a trusted reverse proxy
+    trustProxy: false,
 
     // Public keys (exposed to client)
     public: {
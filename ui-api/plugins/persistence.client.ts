@@ -0,0 +1,17 @@
+/**
+ * Restore the previous session from IndexedDB and the API key from localStorage, then keep saving the session
+ * Client-side only: IndexedDB does not exist during SSR
+ */
+export default defineNuxtPlugin(() => {
+  const { restore, startSync } = usePersistence()
+
+  // Needed before the restored files are validated or converted
+  useSettingsStore().loadApiKey()
+
+  // Not awaited, reading the stored files back must not hold up the first render
+  restore()
+    .catch((error: any) => {
+      console.warn('[Persistence] Could not restore the previous session:', error)
+    })
+    .finally(startSync)
+})
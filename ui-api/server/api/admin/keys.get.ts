@@ -0,0 +1,7 @@
+import type { H3Event } from 'h3'
+import type { ApiKeyInfo } from '~/types'
+
+export default defineEventHandler(async (event: H3Event): Promise<ApiKeyInfo[]> => {
+  requireAdmin(event)
+  return listApiKeys()
+})
@@ -0,0 +1,41 @@
+import type { H3Event } from 'h3'
+import type { CreatedApiKey } from '~/types'
+
+/**
+ * Optional positive whole number from the request body
+ */
+function readLimit(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Bad Request',
+      message: `${field} must be a positive whole number`,
+      data: { code: 'INVALID_OPTION' },
+    })
+  }
+  return value
+}
+
+export default defineEventHandler(async (event: H3Event): Promise<CreatedApiKey> => {
+  requireAdmin(event)
+
+  const body = await readBody<Record<string, unknown>>(event) ?? {}
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Bad Request',
+      message: 'name is required',
+      data: { code: 'INVALID_OPTION' },
+    })
+  }
+
+  const created = await createApiKey(name, {
+    rateLimit: readLimit(body.rateLimit, 'rateLimit'),
+    maxConcurrentJobs: readLimit(body.maxConcurrentJobs, 'maxConcurrentJobs'),
+  })
+
+  setResponseStatus(event, 201)
+  return created
+})
@@ -0,0 +1,13 @@
+import type { H3Event } from 'h3'
+
+export default defineEventHandler(async (event: H3Event): Promise<null> => {
+  requireAdmin(event)
+
+  const id = getRouterParam(event, 'id')
+  if (!id || !await revokeApiKey(id)) {
+    throw createError({ statusCode: 404, statusMessage: 'API key not found' })
+  }
+
+  setResponseStatus(event, 204)
+  return null
+})
@@ -1,7 +1,8 @@
 export default defineEventHandler(() => {
+  const { apiKeysRequired } = useRuntimeConfig()
   return {
     status: 'ok',
     timestamp: new Date().toISOString(),
+    apiKeysRequired: Boolean(apiKeysRequired), // The UI asks for a key when set
   }
 })
-
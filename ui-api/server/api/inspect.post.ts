@@ -0,0 +1,25 @@
+import { readFormData } from 'h3'
+import type { H3Event } from 'h3'
+import type { ImageFileType, InspectionReport } from '~/types'
+
+export default defineEventHandler(async (event: H3Event): Promise<InspectionReport> => {
+  const formData = await readFormData(event)
+
+  const file = formData.get('file') as File | null
+  if (!file) {
+    throw createError({ statusCode: 400, statusMessage: 'No file uploaded' })
+  }
+
+  const fileName = file.name || 'input'
+  const data = Buffer.from(await file.arrayBuffer())
+
+  let fileType: ImageFileType
+  try {
+    fileType = detectInputType(data, fileName)
+  }
+  catch (error) {
+    throwRequestError(error)
+  }
+
+  return inspectImage(data, fileName, fileType)
+})
@@ -0,0 +1,13 @@
+import type { H3Event } from 'h3'
+import type { JobState } from '~/types'
+
+export default defineEventHandler((event: H3Event): JobState => {
+  const id = getRouterParam(event, 'id')
+  const job = id ? getConversionJob(id, event.context.apiKey?.id) : undefined
+
+  if (!job) {
+    throw createError({ statusCode: 404, statusMessage: 'Job not found' })
+  }
+
+  return toJobState(job)
+})
@@ -0,0 +1,45 @@
+import { createEventStream } from 'h3'
+import type { H3Event } from 'h3'
+import type { JobState } from '~/types'
+
+export default defineEventHandler((event: H3Event) => {
+  const id = getRouterParam(event, 'id')
+  const job = id ? getConversionJob(id, event.context.apiKey?.id) : undefined
+
+  if (!job) {
+    throw createError({ statusCode: 404, statusMessage: 'Job not found' })
+  }
+
+  const eventStream = createEventStream(event)
+  let finishedSent = false
+
+  const sendFinished = (state: JobState): void => {
+    if (finishedSent) {
+      return
+    }
+    finishedSent = true
+    void eventStream.push({ event: 'finished', data: JSON.stringify(state) })
+    void eventStream.close()
+  }
+
+  // Subscribe before sending the snapshot so no progress is lost in between
+  const unsubscribe = subscribeToJob(job.id, {
+    onProgress: (progress) => {
+      void eventStream.push({ event: 'progress', data: JSON.stringify(progress) })
+    },
+    onFinished: sendFinished,
+  })
+
+  eventStream.onClosed(() => {
+    unsubscribe()
+  })
+
+  // Send the current state first so late subscribers can catch up
+  void eventStream.push({ event: 'snapshot', data: JSON.stringify(toJobState(job)) })
+
+  if (isJobFinished(job)) {
+    sendFinished(toJobState(job))
+  }
+
+  return eventStream.send()
+})
@@ -0,0 +1,33 @@
+import { readFormData } from 'h3'
+import type { H3Event } from 'h3'
+import type { ImageFileType, JobState } from '~/types'
+
+export default defineEventHandler(async (event: H3Event): Promise<JobState> => {
+  // Parse multipart form data
+  const formData = await readFormData(event)
+
+  const file = formData.get('file') as File | null
+  if (!file) {
+    throw createError({ statusCode: 400, statusMessage: 'No file uploaded' })
+  }
+
+  const fileName = file.name || 'input'
+  const data = Buffer.from(await file.arrayBuffer())
+
+  let fileType: ImageFileType
+  let options: ConversionOptions
+  try {
+    fileType = detectInputType(data, fileName)
+    options = await readConversionOptions(formData)
+    checkConversionInput(data, fileName, fileType)
+  }
+  catch (error) {
+    throwRequestError(error)
+  }
+
+  checkJobLimit(event)
+  const job = createConversionJob({ fileName, fileType, data, ...options }, event.context.apiKey?.id)
+
+  setResponseStatus(event, 202)
+  return toJobState(job)
+})
@@ -0,0 +1,5 @@
+import type { HdrMetadataConfig } from '~/types'
+
+export default defineEventHandler(async (): Promise<HdrMetadataConfig> => {
+  return getDefaultMetadataConfig(getCmdDir())
+})
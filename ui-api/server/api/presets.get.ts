@@ -0,0 +1,5 @@
+import type { ConversionPreset } from '~/types'
+
+export default defineEventHandler((): ConversionPreset[] => {
+  return listPresets()
+})
@@ -0,0 +1,36 @@
+import { createReadStream } from 'node:fs'
+import { stat } from 'node:fs/promises'
+import { sendStream } from 'h3'
+import type { H3Event } from 'h3'
+
+export default defineEventHandler(async (event: H3Event) => {
+  const id = getRouterParam(event, 'id')
+  const file = getRouterParam(event, 'file')
+  const job = id ? getConversionJob(id, event.context.apiKey?.id) : undefined
+
+  if (!job || job.status !== 'done' || !job.workspace) {
+    throw createError({ statusCode: 404, statusMessage: 'Result not found' })
+  }
+  if (!file || !isResultFileName(file)) {
+    throw createError({ statusCode: 404, statusMessage: 'Result file not found' })
+  }
+
+  const path = job.workspace.path(file)
+  let size: number
+  try {
+    size = (await stat(path)).size
+  }
+  catch {
+    // Not produced by this conversion, or already removed by the sweeper
+    throw createError({ statusCode: 404, statusMessage: 'Result file not found' })
+  }
+
+  setResponseHeaders(event, {
+    'Content-Type': getResultContentType(file),
+    'Content-Length': String(size),
+    'Content-Disposition': `inline; filename="${file}"`,
+    'Cache-Control': 'private, max-age=3600',
+  })
+
+  return sendStream(event, createReadStream(path))
+})
@@ -0,0 +1,74 @@
+import type { H3Event } from 'h3'
+
+// Routes that stay open: the health check, the static settings the UI needs before a key is entered,
+// and the admin API which checks its own token
+const PUBLIC_PATHS = ['/api/health', '/api/presets', '/api/metadata/defaults', '/api/admin/']
+
+// Read-only analysis uploads, limited separately so validating a batch does not use up the conversion budget
+const ANALYSIS_PATHS = new Set(['/api/validate-hdr', '/api/inspect'])
+
+/**
+ * API key authentication and token-bucket rate limiting for /api routes.
+ * Keys are optional unless NUXT_API_KEYS_REQUIRED is set; requests with a key are limited per key, the rest per IP.
+ */
+export default defineEventHandler(async (event: H3Event) => {
+  const path = event.path.split('?')[0]!
+  if (!path.startsWith('/api/') || PUBLIC_PATHS.some(prefix => path.startsWith(prefix))) {
+    return
+  }
+
+  const config = useRuntimeConfig()
+  // EventSource cannot send headers, so the progress stream also takes the key from the query string
+  const key = readApiKey(event, event.method === 'GET' && path.endsWith('/events'))
+  if (key) {
+    const apiKey = await findApiKey(key)
+    if (!apiKey) {
+      setResponseHeader(event, 'WWW-Authenticate', 'Bearer error="invalid_token"')
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'Invalid API key',
+        data: { code: 'UNAUTHORIZED' },
+      })
+    }
+    event.context.apiKey = apiKey
+  }
+  else if (config.apiKeysRequired) {
+    setResponseHeader(event, 'WWW-Authenticate', 'Bearer')
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized',
+      message: 'An API key is required, send it as `Authorization: Bearer <key>` or `X-API-Key`',
+      data: { code: 'UNAUTHORIZED' },
+    })
+  }
+
+  // Only uploads start work; polling job state and downloading results is not counted
+  if (event.method !== 'POST') {
+    return
+  }
+
+  const apiKey = event.context.apiKey
+  const isAnalysis = ANALYSIS_PATHS.has(path)
+  let limit: number
+  if (isAnalysis) {
+    limit = Number(config.analysisRateLimit) || 120
+  }
+  else if (apiKey) {
+    limit = apiKey.rateLimit ?? (Number(config.apiKeyRateLimit) || 60)
+  }
+  else {
+    limit = Number(config.ipRateLimit) || 20
+  }
+  const client = apiKey
+    ? `key:${apiKey.id}`
+    : `ip:${getRequestIP(event, { xForwardedFor: Boolean(config.trustProxy) }) ?? 'unknown'}`
+  const bucketId = isAnalysis ? `${client}:analysis` : client
+
+  const result = takeToken(bucketId, limit)
+  setResponseHeader(event, 'X-RateLimit-Limit', String(limit))
+  setResponseHeader(event, 'X-RateLimit-Remaining', String(result.remaining))
+  if (!result.allowed) {
+    throwTooManyRequests(event, result.retryAfter, `Rate limit of ${limit} request(s) per minute exceeded`, 'RATE_LIMITED')
+  }
+})
@@ -0,0 +1,32 @@
+// Sweep at least this often, even with a long TTL
+const MAX_SWEEP_INTERVAL_MS = 10 * 60 * 1000
+
+/**
+ * Periodically delete workspaces left behind by crashed or killed conversions
+ */
+export default defineNitroPlugin((nitroApp) => {
+  const { workspaceTtlMinutes } = useRuntimeConfig()
+  const ttlMs = Math.max(1, Number(workspaceTtlMinutes) || 60) * 60 * 1000
+
+  const sweep = async (): Promise<void> => {
+    try {
+      const removed = await sweepWorkspaces(ttlMs)
+      if (removed.length > 0) {
+        // Jobs whose result files are gone would otherwise still report done with dead links
+        forgetSweptJobs(removed)
+        console.info(`Workspace sweep: removed ${removed.length} expired workspace(s)`)
+      }
+    }
+    catch (error: any) {
+      console.error('Workspace sweep failed:', error)
+    }
+  }
+
+  void sweep()
+  const timer = setInterval(sweep, Math.min(ttlMs, MAX_SWEEP_INTERVAL_MS))
+  timer.unref()
+
+  nitroApp.hooks.hook('close', () => {
+    clearInterval(timer)
+  })
+})
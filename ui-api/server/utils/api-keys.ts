@@ -0,0 +1,162 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { dirname, resolve } from 'node:path'
+import type { H3Event } from 'h3'
+import type { ApiKeyInfo, CreatedApiKey } from '~/types'
+
+// Key as kept in the store: only a hash of the secret is written to disk
+export interface StoredApiKey extends ApiKeyInfo {
+  hash: string
+}
+
+declare module 'h3' {
+  interface H3EventContext {
+    apiKey?: StoredApiKey // Set by the auth middleware for requests with a valid key
+  }
+}
+
+export interface ApiKeyLimits {
+  rateLimit?: number
+  maxConcurrentJobs?: number
+}
+
+const KEY_PREFIX = 'hdr_'
+const PREFIX_LENGTH = KEY_PREFIX.length + 6
+
+// Loaded once, then kept in sync with every write
+let keysCache: StoredApiKey[] | null = null
+
+// Writes run one after another so concurrent admin requests never save over each other's changes
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+function toApiKeyInfo({ hash: _hash, ...info }: StoredApiKey): ApiKeyInfo {
+  return info
+}
+
+/**
+ * Location of the key store, relative paths resolve from the server's working directory
+ */
+function getKeysFile(): string {
+  const { apiKeysFile } = useRuntimeConfig()
+  return resolve(process.cwd(), String(apiKeysFile || '.data/api-keys.json'))
+}
+
+async function loadKeys(): Promise<StoredApiKey[]> {
+  if (keysCache) return keysCache
+
+  try {
+    const parsed = JSON.parse(await readFile(getKeysFile(), 'utf-8'))
+    keysCache = Array.isArray(parsed) ? parsed : []
+  }
+  catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw new Error(`Could not read the API key store: ${error.message}`)
+    }
+    keysCache = []
+  }
+  return keysCache
+}
+
+/**
+ * Replace the stored keys; written to a temporary file first so a crash never leaves a half-written store
+ */
+async function saveKeys(keys: StoredApiKey[]): Promise<void> {
+  const file = getKeysFile()
+  await mkdir(dirname(file), { recursive: true })
+  await writeFile(`${file}.tmp`, JSON.stringify(keys, null, 2), { mode: 0o600 })
+  await rename(`${file}.tmp`, file)
+  keysCache = keys
+}
+
+/**
+ * Run a read-modify-write of the store after every write queued before it. A failed write does not stop later ones.
+ */
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(task)
+  writeQueue = result.catch(() => {})
+  return result
+}
+
+/**
+ * API key sent with a request, as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ * With `allowQuery`, also as `?api_key=<key>` for clients that cannot set headers (EventSource).
+ */
+export function readApiKey(event: H3Event, allowQuery = false): string | undefined {
+  const authorization = getHeader(event, 'authorization')
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1]
+  const fromQuery = allowQuery ? getQuery(event).api_key : undefined
+  return bearer
+    || getHeader(event, 'x-api-key')?.trim()
+    || (typeof fromQuery === 'string' && fromQuery ? fromQuery : undefined)
+}
+
+/**
+ * Find the stored key matching a secret
+ */
+export async function findApiKey(key: string): Promise<StoredApiKey | undefined> {
+  const hash = hashKey(key)
+  return (await loadKeys()).find(stored => stored.hash === hash)
+}
+
+export async function listApiKeys(): Promise<ApiKeyInfo[]> {
+  return (await loadKeys()).map(toApiKeyInfo)
+}
+
+/**
+ * Create a key; the returned secret is not stored and cannot be shown again
+ */
+export async function createApiKey(name: string, limits: ApiKeyLimits = {}): Promise<CreatedApiKey> {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`
+  const stored: StoredApiKey = {
+    id: randomUUID(),
+    name,
+    prefix: key.slice(0, PREFIX_LENGTH),
+    createdAt: Date.now(),
+    ...limits,
+    hash: hashKey(key),
+  }
+
+  await enqueueWrite(async () => saveKeys([...await loadKeys(), stored]))
+  return { ...toApiKeyInfo(stored), key }
+}
+
+/**
+ * Delete a key. Returns false when no key has that ID.
+ */
+export function revokeApiKey(id: string): Promise<boolean> {
+  return enqueueWrite(async () => {
+    const keys = await loadKeys()
+    const remaining = keys.filter(stored => stored.id !== id)
+    if (remaining.length === keys.length) {
+      return false
+    }
+    await saveKeys(remaining)
+    return true
+  })
+}
+
+/**
+ * Reject admin requests without the configured admin token. The admin API is off while no token is set.
+ */
+export function requireAdmin(event: H3Event): void {
+  const { adminToken } = useRuntimeConfig()
+  if (!adminToken) {
+    throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+  }
+
+  const expected = Buffer.from(String(adminToken))
+  const received = Buffer.from(getHeader(event, 'authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? '')
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    setResponseHeader(event, 'WWW-Authenticate', 'Bearer')
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized',
+      message: 'A valid admin token is required',
+      data: { code: 'UNAUTHORIZED' },
+    })
+  }
+}
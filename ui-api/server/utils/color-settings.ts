@@ -0,0 +1,210 @@
+import type { ColorGamut, ColorOverrides, ColorSettings, HdrTransfer, ImageFileType, NclxColorInfo } from '~/types'
+
+interface IsobmffBox {
+  type: string
+  start: number // Payload, after the box header
+  end: number
+}
+
+// ITU-T H.273 code points the UHDR encoder has an equivalent for
+const CICP_TRANSFERS: Record<number, HdrTransfer> = {
+  8: 'linear',
+  16: 'pq',
+  18: 'hlg',
+}
+const CICP_PRIMARIES: Record<number, ColorGamut> = {
+  1: 'bt709',
+  9: 'bt2100',
+  12: 'display_p3',
+}
+
+// Previous fixed settings of the pipeline, still used when nothing is detected
+const DEFAULT_COLOR: Required<ColorOverrides> = {
+  transfer: 'pq',
+  hdrGamut: 'bt709',
+  sdrGamut: 'bt709',
+}
+
+// JPEG XL colour encoding values that differ from H.273 (ISO/IEC 18181-1)
+const JXL_PRIMARIES_P3 = 11
+const JXL_WHITE_POINT_D65 = 1
+const JXL_WHITE_POINT_DCI = 11
+
+// H.273 code points for values without a JPEG XL equivalent
+const CICP_UNSPECIFIED = 2
+const CICP_DCI_P3 = 11
+const CICP_DISPLAY_P3 = 12
+const CICP_IDENTITY_MATRIX = 0
+
+/**
+ * Boxes between two offsets of an ISOBMFF file, stopping at the first one that does not fit
+ */
+function readBoxes(data: Buffer, start: number, end: number): IsobmffBox[] {
+  const boxes: IsobmffBox[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    let size = data.readUInt32BE(offset)
+    const type = data.toString('latin1', offset + 4, offset + 8)
+    let header = 8
+    if (size === 1) {
+      if (offset + 16 > end) break
+      size = Number(data.readBigUInt64BE(offset + 8))
+      header = 16
+    }
+    else if (size === 0) {
+      size = end - offset
+    }
+    if (size < header || offset + size > end) {
+      break
+    }
+    boxes.push({ type, start: offset + header, end: offset + size })
+    offset += size
+  }
+  return boxes
+}
+
+function readNclx(data: Buffer, box: IsobmffBox): NclxColorInfo | null {
+  if (box.end - box.start < 11 || data.toString('latin1', box.start, box.start + 4) !== 'nclx') {
+    return null
+  }
+  const body = box.start + 4
+  return {
+    colourPrimaries: data.readUInt16BE(body),
+    transferCharacteristics: data.readUInt16BE(body + 2),
+    matrixCoefficients: data.readUInt16BE(body + 4),
+    fullRange: (data[body + 6]! & 0x80) !== 0,
+  }
+}
+
+/**
+ * 1-based `ipco` property indices an `ipma` box associates with an item
+ */
+function readItemProperties(data: Buffer, ipma: IsobmffBox, itemId: number): number[] {
+  const version = data[ipma.start]!
+  const wideIndices = (data[ipma.start + 3]! & 1) === 1
+  const idSize = version < 1 ? 2 : 4
+  const indexSize = wideIndices ? 2 : 1
+  const indices: number[] = []
+
+  if (ipma.start + 8 > ipma.end) return indices
+  const entryCount = data.readUInt32BE(ipma.start + 4)
+  let offset = ipma.start + 8
+  for (let entry = 0; entry < entryCount; entry++) {
+    if (offset + idSize + 1 > ipma.end) break
+    const id = idSize === 2 ? data.readUInt16BE(offset) : data.readUInt32BE(offset)
+    const count = data[offset + idSize]!
+    offset += idSize + 1
+    if (offset + count * indexSize > ipma.end) break
+
+    if (id === itemId) {
+      // The top bit marks essential properties
+      for (let association = 0; association < count; association++) {
+        const position = offset + association * indexSize
+        indices.push(wideIndices ? data.readUInt16BE(position) & 0x7FFF : data[position]! & 0x7F)
+      }
+    }
+    offset += count * indexSize
+  }
+  return indices
+}
+
+/**
+ * Find the nclx `colr` property of the primary item of an ISOBMFF file (AVIF/HEIF): the item named by `pitm`,
+ * its properties listed in `ipma` and stored in `ipco`. Colour boxes of other items, e.g. a gain map or thumbnail, are ignored.
+ */
+function findPrimaryNclx(data: Buffer): NclxColorInfo | null {
+  const meta = readBoxes(data, 0, data.length).find(box => box.type === 'meta')
+  if (!meta) return null
+
+  // 'meta' is a full box, its children follow the version and flags
+  const metaChildren = readBoxes(data, meta.start + 4, meta.end)
+  const pitm = metaChildren.find(box => box.type === 'pitm')
+  const iprp = metaChildren.find(box => box.type === 'iprp')
+  if (!pitm || !iprp) return null
+  // Version 0 stores a 16-bit item ID, later versions a 32-bit one
+  const idSize = data[pitm.start] === 0 ? 2 : 4
+  if (pitm.start + 4 + idSize > pitm.end) return null
+  const primaryId = idSize === 2 ? data.readUInt16BE(pitm.start + 4) : data.readUInt32BE(pitm.start + 4)
+
+  const iprpChildren = readBoxes(data, iprp.start, iprp.end)
+  const ipco = iprpChildren.find(box => box.type === 'ipco')
+  if (!ipco) return null
+  const properties = readBoxes(data, ipco.start, ipco.end)
+
+  for (const ipma of iprpChildren.filter(box => box.type === 'ipma')) {
+    for (const index of readItemProperties(data, ipma, primaryId)) {
+      const property = properties[index - 1]
+      const nclx = property?.type === 'colr' ? readNclx(data, property) : null
+      if (nclx) return nclx
+    }
+  }
+  return null
+}
+
+/**
+ * H.273 code points equivalent to a JPEG XL colour encoding. An ICC profile in the codestream is not parsed.
+ */
+function toCicp(encoding: JxlColorEncoding): NclxColorInfo | null {
+  if (encoding.iccProfile) {
+    return null
+  }
+
+  // P3 primaries are one H.273 value per white point, the other JPEG XL primaries share the numbering
+  let colourPrimaries = encoding.primaries ?? CICP_UNSPECIFIED
+  if (encoding.primaries === JXL_PRIMARIES_P3) {
+    colourPrimaries = encoding.whitePoint === JXL_WHITE_POINT_D65
+      ? CICP_DISPLAY_P3
+      : encoding.whitePoint === JXL_WHITE_POINT_DCI ? CICP_DCI_P3 : CICP_UNSPECIFIED
+  }
+
+  // JPEG XL stores RGB samples at full range
+  return {
+    colourPrimaries,
+    transferCharacteristics: encoding.transferFunction ?? CICP_UNSPECIFIED,
+    matrixCoefficients: CICP_IDENTITY_MATRIX,
+    fullRange: true,
+  }
+}
+
+/**
+ * Read the CICP colour description of an AVIF (the primary item's nclx box) or a JPEG XL (its codestream
+ * colour encoding). Returns null when there is none, or the file is described by an ICC profile instead.
+ */
+export function readNclxColorInfo(data: Buffer, fileType: ImageFileType): NclxColorInfo | null {
+  if (fileType === 'avif') {
+    return findPrimaryNclx(data)
+  }
+  if (fileType === 'jxl') {
+    try {
+      return toCicp(readJxlColorEncoding(data))
+    }
+    catch (error) {
+      if (!(error instanceof JxlFormatError)) {
+        throw error
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Pick the transfer function and gamuts for the UHDR encode: overrides first, then the source's nclx box,
+ * then the defaults. The SDR gamut is never taken from the source, the base image stays BT.709 unless overridden.
+ */
+export function resolveColorSettings(data: Buffer, fileType: ImageFileType, overrides: ColorOverrides): ColorSettings {
+  const nclx = readNclxColorInfo(data, fileType) ?? undefined
+  const detectedTransfer = nclx && CICP_TRANSFERS[nclx.transferCharacteristics]
+  const detectedGamut = nclx && CICP_PRIMARIES[nclx.colourPrimaries]
+
+  return {
+    transfer: overrides.transfer ?? detectedTransfer ?? DEFAULT_COLOR.transfer,
+    hdrGamut: overrides.hdrGamut ?? detectedGamut ?? DEFAULT_COLOR.hdrGamut,
+    sdrGamut: overrides.sdrGamut ?? DEFAULT_COLOR.sdrGamut,
+    sources: {
+      transfer: overrides.transfer ? 'override' : detectedTransfer ? 'nclx' : 'default',
+      hdrGamut: overrides.hdrGamut ? 'override' : detectedGamut ? 'nclx' : 'default',
+      sdrGamut: overrides.sdrGamut ? 'override' : 'default',
+    },
+    nclx,
+  }
+}
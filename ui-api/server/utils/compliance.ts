@@ -0,0 +1,304 @@
+import type {
+  ChromaSubsampling,
+  ComplianceReport,
+  ComplianceRule,
+  ComplianceRuleId,
+  ComplianceStatus,
+  ConversionPreset,
+  EncodingOptions,
+  HdrMetadata,
+  JpegSampling,
+  MpfEntryInfo,
+} from '~/types'
+
+const STATUS_SEVERITY: Record<ComplianceStatus, number> = {
+  pass: 0,
+  warn: 1,
+  fail: 2,
+}
+
+// Fields that set the HDR headroom, a mismatch here changes how bright the image renders
+const HEADROOM_FIELDS = new Set(['maxContentBoost', 'hdrCapacityMax'])
+
+// ISO 21496-1 stores log2 fractions, so linear values come back slightly rounded
+const RELATIVE_TOLERANCE = 0.01
+const ABSOLUTE_TOLERANCE = 1e-4
+
+// Allowed difference between the aspect ratios of the base image and the gain map
+const ASPECT_TOLERANCE = 0.01
+
+interface ComplianceContext {
+  data: Buffer
+  preset: ConversionPreset
+  metadata: HdrMetadata | null // Metadata the output was encoded with, null when libultrahdr computed it
+  encoding: EncodingOptions // Preset defaults merged with the request's overrides
+  layout: GainMapJpegLayout | null
+  layoutError?: string
+}
+
+function rule(id: ComplianceRuleId, name: string, status: ComplianceStatus, message: string): ComplianceRule {
+  return { id, name, status, message }
+}
+
+function formatSampling(sampling: JpegSampling): string {
+  if (sampling === '400') return 'grayscale'
+  if (sampling === 'other') return 'non-standard subsampling'
+  return sampling.split('').join(':')
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`
+}
+
+function unreadable(id: ComplianceRuleId, name: string, context: ComplianceContext): ComplianceRule {
+  return rule(id, name, 'fail', `The JPEG structure could not be read: ${context.layoutError}`)
+}
+
+function checkSubsampling(
+  id: 'base-subsampling' | 'gainmap-subsampling',
+  context: ComplianceContext,
+): ComplianceRule {
+  const name = id === 'base-subsampling' ? 'Base image chroma subsampling' : 'Gain map chroma subsampling'
+  if (!context.layout) {
+    return unreadable(id, name, context)
+  }
+
+  const image = id === 'base-subsampling' ? context.layout.primary : context.layout.gainMap
+  if (!image) {
+    return rule(id, name, 'fail', 'No gain map image to check')
+  }
+  if (!image.frame) {
+    return rule(id, name, 'fail', 'No frame header found')
+  }
+
+  const expected: ChromaSubsampling = context.preset.subsampling
+  const expectedBy = `${context.preset.name} expects`
+  const actual = image.frame.subsampling
+  if (actual === expected) {
+    return rule(id, name, 'pass', `${formatSampling(actual)}, as ${expectedBy}`)
+  }
+  // libultrahdr writes single-channel gain maps for grayscale content, they still decode everywhere
+  if (id === 'gainmap-subsampling' && actual === '400') {
+    return rule(id, name, 'warn', `Single-channel gain map, ${expectedBy} ${formatSampling(expected)}`)
+  }
+  // An override was honoured, but the platform may still re-encode or reject the result
+  if (actual === context.encoding.subsampling) {
+    return rule(id, name, 'warn', `${formatSampling(actual)} as requested, ${expectedBy} ${formatSampling(expected)}`)
+  }
+  return rule(id, name, 'fail', `${formatSampling(actual)}, ${expectedBy} ${formatSampling(expected)}`)
+}
+
+function checkMpfStructure(context: ComplianceContext): ComplianceRule {
+  const id = 'mpf-structure'
+  const name = 'MPF container'
+  if (!context.layout) {
+    return unreadable(id, name, context)
+  }
+
+  const mpfSegment = findSegment(readJpegSegments(context.data), 'mpf')
+  if (!mpfSegment) {
+    return rule(id, name, 'fail', 'No MPF index, the gain map cannot be located')
+  }
+
+  let entries: MpfEntryInfo[]
+  try {
+    entries = readMpfEntries(mpfSegment)
+  }
+  catch (error: any) {
+    return rule(id, name, 'fail', `MPF index could not be read: ${error.message}`)
+  }
+
+  if (entries.length < 2) {
+    return rule(id, name, 'fail', `MPF index lists ${entries.length} image(s), a gain map needs a second entry`)
+  }
+  if (!context.layout.gainMap) {
+    return rule(id, name, 'fail', 'No MPF image carries gain map metadata')
+  }
+  if (entries[0]!.type !== 'Baseline MP primary image') {
+    return rule(id, name, 'warn', `First MPF image is typed "${entries[0]!.type}" instead of a baseline primary image`)
+  }
+
+  const covered = entries.reduce((total, entry) => total + entry.size, 0)
+  if (covered !== context.data.length) {
+    return rule(id, name, 'warn', `MPF images cover ${covered} of ${context.data.length} bytes`)
+  }
+  return rule(id, name, 'pass', `${entries.length} images, primary and gain map cover the whole file`)
+}
+
+function checkIsoMetadata(context: ComplianceContext): ComplianceRule {
+  const id = 'iso-metadata'
+  const name = 'ISO 21496-1 metadata'
+  if (!context.layout) {
+    return unreadable(id, name, context)
+  }
+
+  const { primary, gainMap } = context.layout
+  if (!gainMap) {
+    return rule(id, name, 'fail', 'No gain map image')
+  }
+  if (!gainMap.iso) {
+    return rule(id, name, 'fail', 'The gain map has no ISO 21496-1 block')
+  }
+
+  try {
+    const iso = parseIsoGainMap(sliceRange(context.data, gainMap.iso))
+    if (!iso.metadata) {
+      return rule(id, name, 'fail', 'The gain map ISO 21496-1 block has no metadata values')
+    }
+    if (!primary.iso) {
+      return rule(id, name, 'warn', 'The gain map has ISO 21496-1 metadata, but the primary image does not announce its version')
+    }
+    return rule(id, name, 'pass', `Version ${iso.minimumVersion} in the primary image and the gain map`)
+  }
+  catch (error: any) {
+    return rule(id, name, 'fail', error.message)
+  }
+}
+
+function isClose(actual: number, expected: number): boolean {
+  return Math.abs(actual - expected) <= Math.max(Math.abs(expected) * RELATIVE_TOLERANCE, ABSOLUTE_TOLERANCE)
+}
+
+function checkMetadataTarget(context: ComplianceContext): ComplianceRule {
+  const id = 'metadata-target'
+  const name = 'Gain map metadata'
+  if (!context.layout) {
+    return unreadable(id, name, context)
+  }
+
+  const stored = context.layout.gainMap && readGainMapMetadata(context.data, context.layout.gainMap)
+  if (!stored) {
+    return rule(id, name, 'fail', 'No readable gain map metadata')
+  }
+
+  // Stored values are log2 for boosts and capacities, the target is linear like the ultrahdr_app cfg
+  const linear = (values: number[]): number[] => values.map(value => 2 ** value)
+  const actual: Record<keyof HdrMetadata, number[]> = {
+    maxContentBoost: linear(stored.gainMapMax),
+    minContentBoost: linear(stored.gainMapMin),
+    gamma: stored.gamma,
+    offsetSdr: stored.offsetSdr,
+    offsetHdr: stored.offsetHdr,
+    hdrCapacityMin: [2 ** stored.hdrCapacityMin],
+    hdrCapacityMax: [2 ** stored.hdrCapacityMax],
+    useBaseColorSpace: stored.useBaseColorSpace === undefined ? [] : [stored.useBaseColorSpace ? 1 : 0],
+  }
+
+  // A single stored value applies to all channels
+  const matches = (values: number[], target: HdrMetadata[keyof HdrMetadata]): boolean =>
+    toChannelValues(target).every((value, channel) => isClose(values[Math.min(channel, values.length - 1)]!, value))
+  const format = (list: number[]): string => [...new Set(list.map(value => Number(value.toPrecision(4))))].join('/')
+
+  const { preset } = context
+  const overridden: string[] = []
+  const mismatches: string[] = []
+  let headroomChanged = false
+  for (const [field, values] of Object.entries(actual) as [keyof HdrMetadata, number[]][]) {
+    if (values.length === 0 || matches(values, preset.metadata[field])) continue
+    const expected = format(toChannelValues(preset.metadata[field]))
+    if (!context.metadata || matches(values, context.metadata[field])) {
+      overridden.push(`${field} ${format(values)} (${preset.name} expects ${expected})`)
+    }
+    else {
+      const requested = format(toChannelValues(context.metadata[field]))
+      mismatches.push(`${field} ${format(values)} (${requested === expected ? '' : `requested ${requested}, `}${preset.name} expects ${expected})`)
+      headroomChanged ||= HEADROOM_FIELDS.has(field)
+    }
+  }
+
+  if (mismatches.length > 0) {
+    return rule(id, name, headroomChanged ? 'fail' : 'warn', `Differs from the requested metadata: ${mismatches.join(', ')}`)
+  }
+  // Custom or computed metadata was written as intended, but it is not what the platform is tuned for
+  if (overridden.length > 0 && !context.metadata) {
+    return rule(id, name, 'warn', `Computed by libultrahdr, differs from the ${preset.name} metadata: ${overridden.join(', ')}`)
+  }
+  if (overridden.length > 0) {
+    return rule(id, name, 'warn', `Custom values instead of the ${preset.name} metadata: ${overridden.join(', ')}`)
+  }
+  return rule(id, name, 'pass', `All values match the ${preset.name} metadata`)
+}
+
+function checkDimensions(context: ComplianceContext): ComplianceRule {
+  const id = 'dimensions'
+  const name = 'Dimensions'
+  if (!context.layout) {
+    return unreadable(id, name, context)
+  }
+
+  const { primary, gainMap } = context.layout
+  if (!primary.frame) {
+    return rule(id, name, 'fail', 'No frame header found')
+  }
+
+  const { width, height } = primary.frame
+  const size = `${width}×${height}`
+  const { maxDimension, name: presetName } = context.preset
+  if (maxDimension && Math.max(width, height) > maxDimension) {
+    return rule(id, name, 'fail', `${size} exceeds the ${maxDimension}px long edge of ${presetName}, it will be downscaled on upload`)
+  }
+
+  // The gain map may be smaller than the base image but must cover the same area
+  if (gainMap?.frame) {
+    const ratio = (width / height) / (gainMap.frame.width / gainMap.frame.height)
+    if (Math.abs(ratio - 1) > ASPECT_TOLERANCE) {
+      return rule(id, name, 'warn', `Gain map is ${gainMap.frame.width}×${gainMap.frame.height}, its aspect ratio differs from the ${size} base image`)
+    }
+  }
+
+  return rule(id, name, 'pass', maxDimension ? `${size}, within ${maxDimension}px` : `${size}, ${presetName} has no size limit`)
+}
+
+function checkFileSize(context: ComplianceContext): ComplianceRule {
+  const id = 'file-size'
+  const name = 'File size'
+  const { maxFileSize, name: presetName } = context.preset
+  const size = formatBytes(context.data.length)
+
+  if (!maxFileSize) {
+    return rule(id, name, 'pass', `${size}, ${presetName} has no file size limit`)
+  }
+  if (context.data.length > maxFileSize) {
+    return rule(id, name, 'fail', `${size} exceeds the ${formatBytes(maxFileSize)} limit of ${presetName}`)
+  }
+  return rule(id, name, 'pass', `${size}, within ${formatBytes(maxFileSize)}`)
+}
+
+/**
+ * Check a converted JPEG against what its target platform needs to keep the HDR rendition:
+ * subsampling of both images, MPF layout, ISO 21496-1 metadata and its values, dimensions and file size.
+ */
+export function checkCompliance(
+  data: Buffer,
+  preset: ConversionPreset,
+  metadata: HdrMetadata | null,
+  encoding: EncodingOptions,
+): ComplianceReport {
+  const context: ComplianceContext = { data, preset, metadata, encoding, layout: null }
+  try {
+    context.layout = readGainMapLayout(data)
+  }
+  catch (error: any) {
+    if (!(error instanceof JpegFormatError)) {
+      throw error
+    }
+    context.layoutError = error.message
+  }
+
+  const rules = [
+    checkSubsampling('base-subsampling', context),
+    checkSubsampling('gainmap-subsampling', context),
+    checkMpfStructure(context),
+    checkIsoMetadata(context),
+    checkMetadataTarget(context),
+    checkDimensions(context),
+    checkFileSize(context),
+  ]
+
+  const status = rules.reduce<ComplianceStatus>(
+    (worst, { status }) => STATUS_SEVERITY[status] > STATUS_SEVERITY[worst] ? status : worst,
+    'pass',
+  )
+
+  return { preset: preset.id, status, rules }
+}
@@ -0,0 +1,202 @@
+import type { ChromaSubsampling, ColorGamut, ColorOverrides, ConversionMode, ConversionPreset, EncodingOptions, GainMapScale, HdrMetadata, HdrTransfer, ImageFileType } from '~/types'
+
+// Accepted long edge for the resize option, in pixels
+const RESIZE_MIN = 16
+const RESIZE_MAX = 16384
+
+const GAIN_MAP_SCALES: GainMapScale[] = [1, 2, 4]
+const SUBSAMPLINGS: ChromaSubsampling[] = ['420', '422', '444']
+const MODES: ConversionMode[] = ['convert', 'synthesize']
+const TRANSFERS: HdrTransfer[] = ['pq', 'hlg', 'linear']
+const GAMUTS: ColorGamut[] = ['bt709', 'display_p3', 'bt2100']
+
+export interface ConversionOptions {
+  preset: ConversionPreset
+  metadata?: HdrMetadata // Gain map metadata override, replaces the preset's metadata
+  resize?: number // Target long edge in pixels, only ever scales down
+  encoding: EncodingOptions
+  mode: ConversionMode
+  sdr?: Buffer // SDR JPEG paired with the HDR source, only when synthesizing
+  color: ColorOverrides // Unset fields are detected from AVIF/JXL sources
+}
+
+/**
+ * Raised when a conversion option has an invalid value
+ */
+export class InvalidOptionError extends ConversionRequestError {
+  override readonly code = 'INVALID_OPTION' as const
+
+  constructor(option: string, message: string) {
+    super(`Invalid ${option}: ${message}`)
+    this.name = 'InvalidOptionError'
+  }
+}
+
+/**
+ * Raised when the input has no HDR rendition the requested mode can work from
+ */
+export class MissingGainMapError extends ConversionRequestError {
+  override readonly code = 'MISSING_GAIN_MAP' as const
+
+  constructor(fileName: string) {
+    super(`${fileName} is a JPEG without a gain map, so it has no HDR rendition to convert. Upload an HDR AVIF, JPEG XL or Ultra HDR JPEG, and pass an SDR JPEG as 'sdr' to use it as the base`)
+    this.name = 'MissingGainMapError'
+  }
+}
+
+/**
+ * Read the optional `resize` field (target long edge in pixels)
+ */
+function readResize(formData: FormData): number | undefined {
+  const value = formData.get('resize')
+  if (value === null || value === '') {
+    return undefined
+  }
+
+  const resize = Number(value)
+  if (!Number.isInteger(resize) || resize < RESIZE_MIN || resize > RESIZE_MAX) {
+    throw new InvalidOptionError('resize', `expected a whole number of pixels between ${RESIZE_MIN} and ${RESIZE_MAX}`)
+  }
+  return resize
+}
+
+/**
+ * Read a JPEG quality field (1-100)
+ */
+function readQuality(formData: FormData, name: string): number | undefined {
+  const value = formData.get(name)
+  if (value === null || value === '') {
+    return undefined
+  }
+
+  const quality = Number(value)
+  if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+    throw new InvalidOptionError(name, 'expected a whole number between 1 and 100')
+  }
+  return quality
+}
+
+/**
+ * Read the encoding fields, falling back to the preset's quality and subsampling.
+ * The gain map uses the base quality unless `gainMapQuality` is set.
+ */
+function readEncoding(formData: FormData, preset: ConversionPreset): EncodingOptions {
+  const baseQuality = readQuality(formData, 'baseQuality') ?? preset.quality
+
+  const scale = formData.get('gainMapScale')
+  const gainMapScale = scale === null || scale === '' ? 1 : Number(scale)
+  if (!GAIN_MAP_SCALES.includes(gainMapScale as GainMapScale)) {
+    throw new InvalidOptionError('gainMapScale', `expected one of ${GAIN_MAP_SCALES.join(', ')}`)
+  }
+
+  const subsampling = formData.get('subsampling')
+  if (subsampling !== null && subsampling !== '' && !SUBSAMPLINGS.includes(subsampling as ChromaSubsampling)) {
+    throw new InvalidOptionError('subsampling', `expected one of ${SUBSAMPLINGS.join(', ')}`)
+  }
+
+  return {
+    baseQuality,
+    gainMapQuality: readQuality(formData, 'gainMapQuality') ?? baseQuality,
+    gainMapScale: gainMapScale as GainMapScale,
+    subsampling: (subsampling || preset.subsampling) as ChromaSubsampling,
+  }
+}
+
+/**
+ * Read the optional `sdr` image (must be a JPEG)
+ */
+async function readSdrImage(formData: FormData): Promise<Buffer | undefined> {
+  const file = formData.get('sdr')
+  if (file === null || file === '') {
+    return undefined
+  }
+  if (typeof file === 'string') {
+    throw new InvalidOptionError('sdr', 'expected an uploaded JPEG file')
+  }
+
+  const data = Buffer.from(await file.arrayBuffer())
+  if (detectImageFormat(data) !== 'jpeg') {
+    throw new InvalidOptionError('sdr', `${file.name || 'the SDR image'} is not a JPEG`)
+  }
+  return data
+}
+
+/**
+ * Read the optional `mode` field; an SDR image implies 'synthesize'
+ */
+function readMode(formData: FormData, hasSdr: boolean): ConversionMode {
+  const value = formData.get('mode')
+  if (value === null || value === '') {
+    return hasSdr ? 'synthesize' : 'convert'
+  }
+  if (!MODES.includes(value as ConversionMode)) {
+    throw new InvalidOptionError('mode', `expected one of ${MODES.join(', ')}`)
+  }
+  if (value === 'convert' && hasSdr) {
+    throw new InvalidOptionError('mode', 'an SDR image is only used when synthesizing the gain map')
+  }
+  return value as ConversionMode
+}
+
+/**
+ * Read one of the enumerated colour fields, leaving it unset when empty
+ */
+function readChoice<T extends string>(formData: FormData, name: string, choices: T[]): T | undefined {
+  const value = formData.get(name)
+  if (value === null || value === '') {
+    return undefined
+  }
+  if (!choices.includes(value as T)) {
+    throw new InvalidOptionError(name, `expected one of ${choices.join(', ')}`)
+  }
+  return value as T
+}
+
+/**
+ * Read the `transfer`, `hdrGamut` and `sdrGamut` overrides of the HDR source's colour interpretation
+ */
+function readColorOverrides(formData: FormData): ColorOverrides {
+  return {
+    transfer: readChoice(formData, 'transfer', TRANSFERS),
+    hdrGamut: readChoice(formData, 'hdrGamut', GAMUTS),
+    sdrGamut: readChoice(formData, 'sdrGamut', GAMUTS),
+  }
+}
+
+/**
+ * Read every conversion option of an upload, falling back to the defaults
+ */
+export async function readConversionOptions(formData: FormData): Promise<ConversionOptions> {
+  const preset = readPreset(formData)
+  const sdr = await readSdrImage(formData)
+  return {
+    preset,
+    metadata: readMetadataOverride(formData),
+    resize: readResize(formData),
+    encoding: readEncoding(formData, preset),
+    mode: readMode(formData, !!sdr),
+    sdr,
+    color: readColorOverrides(formData),
+  }
+}
+
+/**
+ * Reject a JPEG input without a gain map up front, in either mode it has no HDR data to work from.
+ * Files whose structure cannot be read are left to the conversion script.
+ */
+export function checkConversionInput(data: Buffer, fileName: string, fileType: ImageFileType): void {
+  if (fileType !== 'jpeg') {
+    return
+  }
+
+  try {
+    if (!readGainMapLayout(data).gainMap) {
+      throw new MissingGainMapError(fileName)
+    }
+  }
+  catch (error) {
+    if (!(error instanceof JpegFormatError)) {
+      throw error
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import { writeFile, readFile, access, stat } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { ColorSettings, ConversionResult, HdrMetadata, ImageFileType } from '~/types'
+
+export interface ConversionInput extends ConversionOptions {
+  fileName: string
+  fileType: ImageFileType
+  data: Buffer
+}
+
+const INPUT_TYPE_LABELS: Record<ImageFileType, string> = {
+  jpeg: 'JPEG HDR',
+  avif: 'AVIF',
+  jxl: 'JPEG XL',
+}
+
+/**
+ * Run the conversion script, forwarding each output line to the reporter as it is printed
+ */
+async function runConvertScript(args: string[], reporter: ProgressReporter, signal?: AbortSignal): Promise<void> {
+  let lastError = ''
+  const forward = (line: string): void => {
+    const { level, message } = parseScriptLine(line)
+    if (level === 'error' && message) {
+      lastError = message
+    }
+    reporter.scriptLine(line)
+  }
+
+  try {
+    await runTool('convert-script', args, {
+      onStdoutLine: forward,
+      onStderrLine: forward,
+      signal,
+    })
+  }
+  catch (error: any) {
+    // The script's own error line explains more than its exit code, unless it was killed
+    if (error instanceof ProcessError && !error.result.timedOut && !error.result.aborted && lastError) {
+      throw new Error(lastError)
+    }
+    throw error
+  }
+}
+
+/**
+ * Read a metadata cfg the script decoded, reporting instead of failing when it is missing
+ */
+async function readWorkspaceMetadata(
+  path: string,
+  label: 'input' | 'output',
+  reporter: ProgressReporter,
+): Promise<HdrMetadata | undefined> {
+  try {
+    const metadata = parseMetadataConfig(await readFile(path, 'utf-8'))
+    if (Object.keys(metadata).length > 0) {
+      reporter.log(`HDR metadata of the ${label} extracted successfully`)
+      return metadata as HdrMetadata
+    }
+    reporter.log(`No HDR metadata found in the ${label}`)
+  }
+  catch (metaError: any) {
+    reporter.log(`Metadata extraction warning (${label}): ${metaError.message}`, 'warning')
+  }
+  return undefined
+}
+
+/**
+ * Run the convert-to-iso-hdr.sh pipeline for a single uploaded file inside the given workspace.
+ * The output files stay in the workspace and are linked from the result by job ID; the caller owns the workspace.
+ * Script output is streamed into the reporter so callers can expose progress while running.
+ * Aborting the signal stops the script.
+ */
+export async function convertImage(
+  jobId: string,
+  input: ConversionInput,
+  workspace: Workspace,
+  reporter: ProgressReporter,
+  signal?: AbortSignal,
+): Promise<ConversionResult> {
+  const fileTypeLabel = INPUT_TYPE_LABELS[input.fileType]
+  const { preset } = input
+  const fileData = input.data
+
+  // Setup paths
+  const cmdDir = getCmdDir()
+  const convertScript = join(cmdDir, 'convert-to-iso-hdr.sh')
+
+  reporter.log(`Command directory: ${cmdDir}`)
+  reporter.log(`Workspace: ${workspace.dir}`)
+  reporter.log(`Input file type: ${fileTypeLabel} (detected from file header)`)
+
+  // Everything lives in the job's own workspace, so names only need to be unique per job
+  const outputJpgPath = workspace.path('output.jpg')
+  // Name the input after its detected format, not the uploaded extension
+  const inputPath = workspace.path(`input${getInputExtension(input.fileType)}`)
+  const metadataConfigPath = workspace.path('encode_metadata.cfg')
+  const scriptTempDir = workspace.path('tmp')
+
+  // Save uploaded file to the workspace
+  await writeFile(inputPath, fileData)
+  reporter.log(`Saved input file: ${inputPath}`)
+  reporter.log(`File size: ${fileData.length} bytes`)
+
+  // Verify script exists
+  try {
+    await access(convertScript)
+    reporter.log(`Found conversion script: ${convertScript}`)
+  }
+  catch {
+    throw new Error(`Conversion script not found: ${convertScript}`)
+  }
+
+  // Process JPEG, AVIF and JXL through the conversion script
+  reporter.setStage('prepare')
+  reporter.log(`Starting ${fileTypeLabel} to ${preset.name} HDR JPEG conversion...`)
+  const { encoding } = input
+  reporter.log(`Preset: ${preset.name} (quality ${preset.quality}, ${preset.subsampling} subsampling)`)
+  reporter.log(`Encoding: base quality ${encoding.baseQuality}, gain map quality ${encoding.gainMapQuality} at 1/${encoding.gainMapScale} scale, ${encoding.subsampling} subsampling`)
+
+  const scriptArgs = [
+    '-o', outputJpgPath,
+    '-q', String(encoding.baseQuality),
+    '-Q', String(encoding.gainMapQuality),
+    '-g', String(encoding.gainMapScale),
+    '-s', encoding.subsampling,
+    '-t', scriptTempDir,
+    '-m', workspace.dir,
+  ]
+
+  // A synthesized gain map is only valid with the metadata libultrahdr computed for it
+  let metadata: HdrMetadata | null = null
+  if (input.mode === 'synthesize') {
+    if (input.metadata) {
+      reporter.log('Custom gain map metadata is not applied when synthesizing, the computed metadata is kept', 'warning')
+    }
+  }
+  else {
+    metadata = input.metadata ?? preset.metadata
+    await writeMetadataConfig(metadataConfigPath, metadata)
+    reporter.log(`${input.metadata ? 'Using custom' : `Using ${preset.name}`} gain map metadata: ${formatMetadataConfig(metadata).trim().replace(/\n/g, ', ')}`)
+    scriptArgs.push('-f', metadataConfigPath)
+  }
+  if (input.resize) {
+    reporter.log(`Resizing to fit ${input.resize}px (long edge)`)
+    scriptArgs.push('-r', String(input.resize))
+  }
+  // libultrahdr cannot read the colour description of AVIF/JXL inputs itself, so it is passed explicitly
+  let color: ColorSettings | undefined
+  if (input.fileType !== 'jpeg') {
+    color = resolveColorSettings(fileData, input.fileType, input.color)
+    const { sources, nclx } = color
+    if (nclx) {
+      reporter.log(`Source colour (CICP): primaries ${nclx.colourPrimaries}, transfer ${nclx.transferCharacteristics}, matrix ${nclx.matrixCoefficients}, ${nclx.fullRange ? 'full' : 'limited'} range`)
+    }
+    if (sources.transfer === 'default') {
+      reporter.log(`No transfer function found in the ${fileTypeLabel} source, assuming ${color.transfer}; set it if the image is HLG or linear`, 'warning')
+    }
+    reporter.log(`Colour: transfer ${color.transfer} (${sources.transfer}), HDR gamut ${color.hdrGamut} (${sources.hdrGamut}), SDR gamut ${color.sdrGamut} (${sources.sdrGamut})`)
+    scriptArgs.push('--transfer', color.transfer, '--hdr-gamut', color.hdrGamut, '--sdr-gamut', color.sdrGamut)
+  }
+  if (input.mode === 'synthesize') {
+    scriptArgs.push('-y')
+    if (input.sdr) {
+      const sdrInputPath = workspace.path('sdr-input.jpg')
+      await writeFile(sdrInputPath, input.sdr)
+      scriptArgs.push('-S', sdrInputPath)
+      reporter.log(`Synthesizing the gain map from the HDR source and the supplied SDR image (${input.sdr.length} bytes)`)
+    }
+    else {
+      reporter.log('Synthesizing the gain map from the HDR source with a tone-mapped SDR base')
+    }
+  }
+  scriptArgs.push(inputPath)
+  reporter.log(`Executing: bash ${[convertScript, ...scriptArgs].join(' ')}`)
+
+  await runConvertScript(scriptArgs, reporter, signal)
+
+  reporter.setStage('extract')
+  reporter.log(`Output file: ${outputJpgPath}`)
+
+  // Converted JPG (required)
+  const outputJpg = await readFile(outputJpgPath)
+  reporter.log(`Converted ${fileTypeLabel} size: ${outputJpg.length} bytes`)
+
+  const results: ConversionResult = {
+    success: true,
+    outputJpg: toResultFile(jobId, 'output.jpg', outputJpg.length),
+    preset: preset.id,
+    mode: input.mode,
+    encoding,
+    color,
+    logs: reporter.logs,
+  }
+
+  // Copy the SDR base and gain map codestreams out of the output's MPF container (optional)
+  reporter.log('Attempting to extract SDR base and gain map images...')
+  try {
+    const { primary, gainMap } = readGainMapLayout(outputJpg)
+
+    // The primary image is the SDR rendition every non-HDR viewer shows
+    await writeFile(workspace.path('sdr.jpg'), sliceRange(outputJpg, primary.range))
+    results.sdrImage = toResultFile(jobId, 'sdr.jpg', primary.range.length)
+    reporter.log(`SDR base extracted: ${primary.range.length} bytes`)
+
+    if (gainMap) {
+      const gainMapPath = workspace.path('gainmap.jpg')
+      await writeFile(gainMapPath, sliceRange(outputJpg, gainMap.range))
+      results.gainMap = toResultFile(jobId, 'gainmap.jpg', gainMap.range.length)
+      reporter.log(`Gain map extracted: ${gainMap.range.length} bytes`)
+
+      const gainMapMetadata = readGainMapMetadata(outputJpg, gainMap)
+      if (gainMapMetadata) {
+        try {
+          const heatmapPath = workspace.path('heatmap.jpg')
+          const legend = await renderGainMapHeatmap(gainMapPath, heatmapPath, gainMapMetadata)
+          const { size: heatmapSize } = await stat(heatmapPath)
+          results.gainMapHeatmap = toResultFile(jobId, 'heatmap.jpg', heatmapSize)
+          results.gainMapLegend = legend
+          reporter.log('Gain map heat map rendered')
+        }
+        catch (heatmapError: any) {
+          reporter.log(`Gain map heat map warning: ${heatmapError.message}`, 'warning')
+        }
+      }
+    }
+    else {
+      reporter.log('Gain map not found in the output MPF index', 'warning')
+    }
+  }
+  catch (gmError: any) {
+    reporter.log(`Gain map extraction warning: ${gmError.message}`, 'warning')
+  }
+
+  // The script leaves the metadata it decoded from the input and the output in the workspace (-m)
+  reporter.log('Reading HDR metadata...')
+  results.metadataOriginal = await readWorkspaceMetadata(workspace.path('input_metadata.cfg'), 'input', reporter)
+  results.metadata = await readWorkspaceMetadata(workspace.path('output_metadata.cfg'), 'output', reporter)
+
+  reporter.log(`Checking ${preset.name} compliance...`)
+  results.compliance = checkCompliance(outputJpg, preset, metadata, encoding)
+  for (const rule of results.compliance.rules) {
+    if (rule.status !== 'pass') {
+      reporter.log(`${rule.name} (${rule.status}): ${rule.message}`, 'warning')
+    }
+  }
+  const passed = results.compliance.rules.filter(rule => rule.status === 'pass').length
+  reporter.log(`Compliance: ${passed} of ${results.compliance.rules.length} checks passed`, results.compliance.status === 'pass' ? 'success' : 'warning')
+
+  reporter.setStage('complete')
+  reporter.log('Conversion completed successfully!', 'success')
+
+  return results
+}
@@ -0,0 +1,32 @@
+import type { ApiErrorCode } from '~/types'
+
+/**
+ * Base class for invalid fields in a conversion request (answered with 400)
+ */
+export class ConversionRequestError extends Error {
+  declare readonly code: ApiErrorCode
+}
+
+/**
+ * Answer a rejected upload: 415 for a format the pipeline cannot read, 400 for an invalid request field.
+ * Any other error is rethrown unchanged.
+ */
+export function throwRequestError(error: unknown): never {
+  if (error instanceof UnsupportedFormatError) {
+    throw createError({
+      statusCode: 415,
+      statusMessage: 'Unsupported Media Type',
+      message: error.message,
+      data: { code: error.code, detectedFormat: error.detectedFormat },
+    })
+  }
+  if (error instanceof ConversionRequestError) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Bad Request',
+      message: error.message,
+      data: { code: error.code },
+    })
+  }
+  throw error
+}
@@ -0,0 +1,47 @@
+import type { GainMapLegend, GainMapMetadataValues } from '~/types'
+
+// Perceptually ordered palette (magma), from no boost to the strongest boost
+const HEATMAP_COLORS = ['#000004', '#3b0f70', '#8c2981', '#de4968', '#fe9f6d', '#fcfdbf']
+
+const HEATMAP_QUALITY = 90
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+/**
+ * Boost in stops at each palette colour. A gain map pixel `v` recovers
+ * log2 boost = lerp(GainMapMin, GainMapMax, v^(1/Gamma)); colour gain maps use the channel mean.
+ */
+function getGainMapLegend(metadata: GainMapMetadataValues): GainMapLegend {
+  const min = mean(metadata.gainMapMin)
+  const max = mean(metadata.gainMapMax)
+  const gamma = mean(metadata.gamma)
+
+  return {
+    colors: HEATMAP_COLORS,
+    stops: HEATMAP_COLORS.map((_, index) => {
+      const position = index / (HEATMAP_COLORS.length - 1)
+      return min + (max - min) * position ** (1 / gamma)
+    }),
+  }
+}
+
+/**
+ * Render a gain map codestream as a false-colour heat map with ImageMagick's -clut
+ */
+export async function renderGainMapHeatmap(
+  gainMapPath: string,
+  outputPath: string,
+  metadata: GainMapMetadataValues,
+): Promise<GainMapLegend> {
+  await runTool('magick', [
+    gainMapPath,
+    '-colorspace', 'Gray',
+    '(', '-size', '1x1', ...HEATMAP_COLORS.map(color => `xc:${color}`), '+append', '-resize', '256x1!', ')',
+    '-clut',
+    '-quality', String(HEATMAP_QUALITY),
+    outputPath,
+  ])
+  return getGainMapLegend(metadata)
+}
@@ -0,0 +1,279 @@
+import type { GainMapFieldComparison, GainMapMetadataValueField, GainMapMetadataValues } from '~/types'
+
+export interface XmpGainMapBlock {
+  version?: string // hdrgm:Version, also present in the primary image
+  metadata: GainMapMetadataValues | null
+}
+
+export interface IsoGainMapBlock {
+  minimumVersion: number
+  writerVersion: number
+  metadata: GainMapMetadataValues | null // Null for the version-only block of the primary image
+}
+
+// Per-channel hdrgm fields and the Adobe spec defaults used when they are absent
+const XMP_CHANNEL_FIELDS: { name: string, field: 'gainMapMin' | 'gainMapMax' | 'gamma' | 'offsetSdr' | 'offsetHdr', fallback?: number }[] = [
+  { name: 'GainMapMin', field: 'gainMapMin', fallback: 0 },
+  { name: 'GainMapMax', field: 'gainMapMax' },
+  { name: 'Gamma', field: 'gamma', fallback: 1 },
+  { name: 'OffsetSDR', field: 'offsetSdr', fallback: 1 / 64 },
+  { name: 'OffsetHDR', field: 'offsetHdr', fallback: 1 / 64 },
+]
+
+// ISO 21496-1 flag bits, as written by libultrahdr
+const ISO_FLAG_MULTICHANNEL = 0x80
+const ISO_FLAG_USE_BASE_COLOUR_SPACE = 0x40
+const ISO_FLAG_COMMON_DENOMINATOR = 0x08
+const ISO_FLAG_BACKWARD_DIRECTION = 0x04
+
+// XMP stores 6 decimals while ISO stores fractions, so allow for rounding
+const COMPARISON_TOLERANCE = 1e-4
+
+const COMPARED_FIELDS: GainMapMetadataValueField[] = [
+  'baseRenditionIsHdr',
+  'gainMapMin',
+  'gainMapMax',
+  'gamma',
+  'offsetSdr',
+  'offsetHdr',
+  'hdrCapacityMin',
+  'hdrCapacityMax',
+  'useBaseColorSpace',
+]
+
+/**
+ * Read an hdrgm property written either as an attribute or as an element, possibly an rdf:Seq
+ */
+function readXmpProperty(xmp: string, name: string): string[] | undefined {
+  const attribute = xmp.match(new RegExp(`hdrgm:${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`))
+  if (attribute) {
+    return [(attribute[1] ?? attribute[2])!.trim()]
+  }
+
+  const element = xmp.match(new RegExp(`<hdrgm:${name}>([\\s\\S]*?)</hdrgm:${name}>`))
+  if (!element) {
+    return undefined
+  }
+
+  const items = [...element[1]!.matchAll(/<rdf:li>([^<]*)<\/rdf:li>/g)].map(match => match[1]!.trim())
+  return items.length > 0 ? items : [element[1]!.trim()]
+}
+
+function toNumbers(values: string[], name: string): number[] {
+  return values.map((value) => {
+    const number = Number(value)
+    if (!Number.isFinite(number)) {
+      throw new JpegFormatError(`XMP hdrgm:${name} is not a number: ${value}`)
+    }
+    return number
+  })
+}
+
+/**
+ * Parse the Adobe gain map (hdrgm) properties of an XMP packet
+ */
+export function parseXmpGainMap(xmp: string): XmpGainMapBlock {
+  const version = readXmpProperty(xmp, 'Version')?.[0]
+  const gainMapMax = readXmpProperty(xmp, 'GainMapMax')
+  const capacityMax = readXmpProperty(xmp, 'HDRCapacityMax')
+
+  // GainMapMax and HDRCapacityMax are required, without them there is no gain map description
+  if (!gainMapMax || !capacityMax) {
+    return { version, metadata: null }
+  }
+
+  const defaulted: string[] = []
+  const channels = {} as Pick<GainMapMetadataValues, 'gainMapMin' | 'gainMapMax' | 'gamma' | 'offsetSdr' | 'offsetHdr'>
+  for (const { name, field, fallback } of XMP_CHANNEL_FIELDS) {
+    const values = readXmpProperty(xmp, name)
+    if (values) {
+      channels[field] = toNumbers(values, name)
+    }
+    else {
+      channels[field] = [fallback!]
+      defaulted.push(field)
+    }
+  }
+
+  const capacityMin = readXmpProperty(xmp, 'HDRCapacityMin')
+  if (!capacityMin) {
+    defaulted.push('hdrCapacityMin')
+  }
+  const baseRendition = readXmpProperty(xmp, 'BaseRenditionIsHDR')?.[0]
+  if (!baseRendition) {
+    defaulted.push('baseRenditionIsHdr')
+  }
+
+  return {
+    version,
+    metadata: {
+      version: version ?? '',
+      baseRenditionIsHdr: baseRendition?.toLowerCase() === 'true',
+      ...channels,
+      hdrCapacityMin: capacityMin ? toNumbers(capacityMin, 'HDRCapacityMin')[0]! : 0,
+      hdrCapacityMax: toNumbers(capacityMax, 'HDRCapacityMax')[0]!,
+      defaulted,
+    },
+  }
+}
+
+/**
+ * Parse the binary ISO 21496-1 gain map metadata that follows the APP2 namespace string.
+ * All values are big-endian fractions; the layout matches libultrahdr's encoder.
+ */
+export function parseIsoGainMap(payload: Buffer): IsoGainMapBlock {
+  let offset = 0
+  const need = (bytes: number): void => {
+    if (offset + bytes > payload.length) {
+      throw new JpegFormatError(`ISO 21496-1 metadata is truncated at byte ${offset}`)
+    }
+  }
+  const u8 = (): number => {
+    need(1)
+    return payload.readUInt8(offset++)
+  }
+  const u16 = (): number => {
+    need(2)
+    offset += 2
+    return payload.readUInt16BE(offset - 2)
+  }
+  const u32 = (): number => {
+    need(4)
+    offset += 4
+    return payload.readUInt32BE(offset - 4)
+  }
+  const s32 = (): number => {
+    need(4)
+    offset += 4
+    return payload.readInt32BE(offset - 4)
+  }
+  const fraction = (numerator: number, denominator: number): number => {
+    if (denominator === 0) {
+      throw new JpegFormatError('ISO 21496-1 metadata has a zero denominator')
+    }
+    return numerator / denominator
+  }
+
+  const minimumVersion = u16()
+  const writerVersion = u16()
+
+  // The primary image only announces the version, the gain map image carries the values
+  if (offset === payload.length) {
+    return { minimumVersion, writerVersion, metadata: null }
+  }
+
+  const flags = u8()
+  const channelCount = flags & ISO_FLAG_MULTICHANNEL ? 3 : 1
+  const backward = (flags & ISO_FLAG_BACKWARD_DIRECTION) !== 0
+
+  let baseHeadroom: number
+  let alternateHeadroom: number
+  const channels = { min: [] as number[], max: [] as number[], gamma: [] as number[], baseOffset: [] as number[], alternateOffset: [] as number[] }
+
+  if (flags & ISO_FLAG_COMMON_DENOMINATOR) {
+    const denominator = u32()
+    baseHeadroom = fraction(u32(), denominator)
+    alternateHeadroom = fraction(u32(), denominator)
+    for (let channel = 0; channel < channelCount; channel++) {
+      channels.min.push(fraction(s32(), denominator))
+      channels.max.push(fraction(s32(), denominator))
+      channels.gamma.push(fraction(u32(), denominator))
+      channels.baseOffset.push(fraction(s32(), denominator))
+      channels.alternateOffset.push(fraction(s32(), denominator))
+    }
+  }
+  else {
+    baseHeadroom = fraction(u32(), u32())
+    alternateHeadroom = fraction(u32(), u32())
+    for (let channel = 0; channel < channelCount; channel++) {
+      channels.min.push(fraction(s32(), u32()))
+      channels.max.push(fraction(s32(), u32()))
+      channels.gamma.push(fraction(u32(), u32()))
+      channels.baseOffset.push(fraction(s32(), u32()))
+      channels.alternateOffset.push(fraction(s32(), u32()))
+    }
+  }
+
+  // XMP names the renditions SDR/HDR, ISO names them base/alternate
+  return {
+    minimumVersion,
+    writerVersion,
+    metadata: {
+      version: String(minimumVersion),
+      baseRenditionIsHdr: backward,
+      gainMapMin: channels.min,
+      gainMapMax: channels.max,
+      gamma: channels.gamma,
+      offsetSdr: backward ? channels.alternateOffset : channels.baseOffset,
+      offsetHdr: backward ? channels.baseOffset : channels.alternateOffset,
+      hdrCapacityMin: backward ? alternateHeadroom : baseHeadroom,
+      hdrCapacityMax: backward ? baseHeadroom : alternateHeadroom,
+      useBaseColorSpace: (flags & ISO_FLAG_USE_BASE_COLOUR_SPACE) !== 0,
+      defaulted: [],
+    },
+  }
+}
+
+/**
+ * Gain map metadata of an image, from its ISO 21496-1 block or else its XMP.
+ * Null when neither block holds readable values.
+ */
+export function readGainMapMetadata(buffer: Buffer, image: JpegImageLayout): GainMapMetadataValues | null {
+  if (image.iso) {
+    try {
+      const iso = parseIsoGainMap(sliceRange(buffer, image.iso)).metadata
+      if (iso) return iso
+    }
+    catch {
+      // Fall back to XMP
+    }
+  }
+  if (image.xmp) {
+    try {
+      return parseXmpGainMap(sliceRange(buffer, image.xmp).toString('utf-8')).metadata
+    }
+    catch {
+      return null
+    }
+  }
+  return null
+}
+
+function valuesMatch(a: number[] | number | boolean, b: number[] | number | boolean): boolean {
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    return a === b
+  }
+
+  const left = Array.isArray(a) ? a : [a]
+  const right = Array.isArray(b) ? b : [b]
+  // A single value applies to all channels
+  const length = Math.max(left.length, right.length)
+  for (let i = 0; i < length; i++) {
+    const x = left[Math.min(i, left.length - 1)]!
+    const y = right[Math.min(i, right.length - 1)]!
+    if (Math.abs(x - y) > COMPARISON_TOLERANCE) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Line up the XMP and ISO 21496-1 values of every field
+ */
+export function compareGainMapMetadata(
+  xmp: GainMapMetadataValues | null,
+  iso: GainMapMetadataValues | null,
+): GainMapFieldComparison[] {
+  return COMPARED_FIELDS.map((field) => {
+    const xmpValue = xmp?.[field]
+    const isoValue = iso?.[field]
+    return {
+      field,
+      xmp: xmpValue,
+      iso: isoValue,
+      // Fields only one of the formats stores cannot disagree
+      matches: xmpValue === undefined || isoValue === undefined || valuesMatch(xmpValue, isoValue),
+    }
+  })
+}
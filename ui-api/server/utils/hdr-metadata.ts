@@ -0,0 +1,216 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { ChannelValue, HdrMetadata, HdrMetadataChannelField, HdrMetadataConfig, HdrMetadataField, HdrMetadataRange } from '~/types'
+
+// Field order matches the ultrahdr_app metadata cfg format
+const HDR_METADATA_FIELDS: HdrMetadataField[] = [
+  'maxContentBoost',
+  'minContentBoost',
+  'gamma',
+  'offsetSdr',
+  'offsetHdr',
+  'hdrCapacityMin',
+  'hdrCapacityMax',
+  'useBaseColorSpace',
+]
+
+// Fields written as `r g b` in the cfg when the gain map is multi-channel
+const HDR_METADATA_CHANNEL_FIELDS: HdrMetadataChannelField[] = [
+  'maxContentBoost',
+  'minContentBoost',
+  'gamma',
+  'offsetSdr',
+  'offsetHdr',
+]
+
+// Same values as the bundled hdr-config.cfg (Instagram tuned)
+export const DEFAULT_HDR_METADATA: HdrMetadata = {
+  maxContentBoost: 16,
+  minContentBoost: 1,
+  gamma: 1,
+  offsetSdr: 1e-7,
+  offsetHdr: 1e-7,
+  hdrCapacityMin: 1,
+  hdrCapacityMax: 16.5665,
+  useBaseColorSpace: 1,
+}
+
+// Accepted ranges for user supplied values (inclusive)
+const HDR_METADATA_RANGES: Record<HdrMetadataField, HdrMetadataRange> = {
+  maxContentBoost: { min: 1, max: 10000, step: 0.1 },
+  minContentBoost: { min: 0.0001, max: 10000, step: 0.1 },
+  gamma: { min: 0.01, max: 10, step: 0.1 },
+  offsetSdr: { min: 0, max: 1, step: 0.0000001 },
+  offsetHdr: { min: 0, max: 1, step: 0.0000001 },
+  hdrCapacityMin: { min: 1, max: 10000, step: 0.1 },
+  hdrCapacityMax: { min: 1, max: 10000, step: 0.1 },
+  useBaseColorSpace: { min: 0, max: 1, step: 1 },
+}
+
+/**
+ * Raised when a metadata override is malformed or out of range
+ */
+export class InvalidMetadataError extends ConversionRequestError {
+  override readonly code = 'INVALID_METADATA' as const
+
+  constructor(message: string) {
+    super(`Invalid gain map metadata: ${message}`)
+    this.name = 'InvalidMetadataError'
+  }
+}
+
+function isChannelField(field: HdrMetadataField): field is HdrMetadataChannelField {
+  return (HDR_METADATA_CHANNEL_FIELDS as HdrMetadataField[]).includes(field)
+}
+
+/**
+ * Values of a field for each channel (a single value applies to all three)
+ */
+export function toChannelValues(value: ChannelValue): [number, number, number] {
+  return Array.isArray(value) ? value : [value, value, value]
+}
+
+/**
+ * Parse an ultrahdr_app metadata cfg (`--field value...` per line).
+ * Per-channel fields keep their three values, everything else is a single number.
+ */
+export function parseMetadataConfig(content: string): Partial<HdrMetadata> {
+  const metadata: Partial<HdrMetadata> = {}
+
+  for (const line of content.split('\n')) {
+    const [flag, ...rawValues] = line.trim().split(/\s+/)
+    const field = flag?.replace(/^--/, '') as HdrMetadataField
+    if (!flag?.startsWith('--') || !HDR_METADATA_FIELDS.includes(field)) {
+      continue
+    }
+
+    const values = rawValues.map(Number).filter(value => Number.isFinite(value))
+    if (isChannelField(field) && values.length === 3) {
+      metadata[field] = values as [number, number, number]
+    }
+    else if (values.length > 0) {
+      metadata[field] = values[0]!
+    }
+  }
+
+  return metadata
+}
+
+/**
+ * Serialize metadata into the cfg format accepted by ultrahdr_app -f
+ */
+export function formatMetadataConfig(metadata: HdrMetadata): string {
+  return HDR_METADATA_FIELDS.map((field) => {
+    const value = metadata[field]
+    return `--${field} ${Array.isArray(value) ? value.join(' ') : value}`
+  }).join('\n') + '\n'
+}
+
+/**
+ * Write metadata to a cfg file that can be passed to the conversion script
+ */
+export async function writeMetadataConfig(path: string, metadata: HdrMetadata): Promise<void> {
+  await writeFile(path, formatMetadataConfig(metadata))
+}
+
+/**
+ * Check a metadata override from an API request and return a normalized copy
+ */
+export function validateMetadataOverride(value: unknown): HdrMetadata {
+  let input = value
+  if (typeof input === 'string') {
+    try {
+      input = JSON.parse(input)
+    }
+    catch {
+      throw new InvalidMetadataError('expected a JSON object')
+    }
+  }
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new InvalidMetadataError('expected a JSON object')
+  }
+
+  const source = input as Record<string, unknown>
+  const unknownFields = Object.keys(source).filter(key => !HDR_METADATA_FIELDS.includes(key as HdrMetadataField))
+  if (unknownFields.length > 0) {
+    throw new InvalidMetadataError(`unknown field(s) ${unknownFields.join(', ')}`)
+  }
+
+  const metadata = {} as Record<HdrMetadataField, ChannelValue>
+  for (const field of HDR_METADATA_FIELDS) {
+    const raw = field === 'useBaseColorSpace' && typeof source[field] === 'boolean'
+      ? Number(source[field])
+      : source[field]
+
+    const perChannel = Array.isArray(raw)
+    if (perChannel && !isChannelField(field)) {
+      throw new InvalidMetadataError(`${field} must be a single number`)
+    }
+    if (perChannel && raw.length !== 3) {
+      throw new InvalidMetadataError(`${field} must be a number or an array of 3 numbers (r, g, b)`)
+    }
+
+    const values: unknown[] = perChannel ? raw : [raw]
+    const { min, max } = HDR_METADATA_RANGES[field]
+    for (const value of values) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new InvalidMetadataError(isChannelField(field)
+          ? `${field} must be a number or an array of 3 numbers (r, g, b)`
+          : `${field} must be a number`)
+      }
+      if (value < min || value > max) {
+        throw new InvalidMetadataError(`${field} must be between ${min} and ${max}`)
+      }
+    }
+
+    metadata[field] = perChannel ? [...values] as [number, number, number] : values[0] as number
+  }
+
+  const result = metadata as HdrMetadata
+  if (result.useBaseColorSpace !== 0 && result.useBaseColorSpace !== 1) {
+    throw new InvalidMetadataError('useBaseColorSpace must be 0 or 1')
+  }
+  const maxBoost = toChannelValues(result.maxContentBoost)
+  if (toChannelValues(result.minContentBoost).some((min, channel) => min > maxBoost[channel]!)) {
+    throw new InvalidMetadataError('minContentBoost must not exceed maxContentBoost')
+  }
+  if (result.hdrCapacityMin >= result.hdrCapacityMax) {
+    throw new InvalidMetadataError('hdrCapacityMax must be greater than hdrCapacityMin')
+  }
+
+  return result
+}
+
+/**
+ * Read the optional `metadata` field of a conversion upload
+ */
+export function readMetadataOverride(formData: FormData): HdrMetadata | undefined {
+  const value = formData.get('metadata')
+  if (value === null || value === '') {
+    return undefined
+  }
+  if (typeof value !== 'string') {
+    throw new InvalidMetadataError('expected a JSON object')
+  }
+  return validateMetadataOverride(value)
+}
+
+/**
+ * Default metadata from the script's hdr-config.cfg, plus the accepted ranges
+ */
+export async function getDefaultMetadataConfig(cmdDir: string): Promise<HdrMetadataConfig> {
+  let defaults = DEFAULT_HDR_METADATA
+  try {
+    const content = await readFile(join(cmdDir, 'hdr-config.cfg'), 'utf-8')
+    defaults = { ...DEFAULT_HDR_METADATA, ...parseMetadataConfig(content) }
+  }
+  catch {
+    // Fall back to the built-in values when the cfg has not been installed
+  }
+
+  return {
+    defaults,
+    ranges: HDR_METADATA_RANGES,
+  }
+}
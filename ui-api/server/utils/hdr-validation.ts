@@ -0,0 +1,251 @@
+import { writeFile } from 'node:fs/promises'
+import type { GainMapMetadataFormat, HdrValidationInfo, ImageFileType, TransferFunction } from '~/types'
+
+const FILE_TYPE_LABELS: Record<ImageFileType, string> = {
+  jpeg: 'JPEG',
+  avif: 'AVIF',
+  jxl: 'JPEG XL',
+}
+
+const METADATA_FORMAT_LABELS: Record<GainMapMetadataFormat, string> = {
+  xmp: 'XMP',
+  iso: 'ISO 21496-1',
+}
+
+/**
+ * Check the gain map of a JPEG from its MPF index and metadata segments
+ */
+function validateJpeg(data: Buffer): HdrValidationInfo {
+  let layout: GainMapJpegLayout
+  try {
+    layout = readGainMapLayout(data)
+  }
+  catch (error: any) {
+    return {
+      isHDR: false,
+      verdict: 'unknown',
+      confidence: 'low',
+      reason: `The JPEG structure could not be read: ${error.message}`,
+      fileType: 'jpeg',
+      container: 'JPEG',
+      error: 'Failed to read JPEG structure',
+      details: 'Could not verify HDR',
+    }
+  }
+
+  const { primary, gainMap } = layout
+  const base = {
+    fileType: 'jpeg' as const,
+    bitDepth: primary.frame?.bitDepth,
+  }
+
+  if (!gainMap) {
+    const announcesGainMap = !!primary.xmp && sliceRange(data, primary.xmp).includes('hdrgm:Version')
+    return {
+      ...base,
+      isHDR: false,
+      verdict: 'sdr',
+      confidence: announcesGainMap ? 'medium' : 'high',
+      reason: announcesGainMap
+        ? 'The XMP announces a gain map (hdrgm:Version) but no MPF image carries one'
+        : 'No gain map image in the MPF index',
+      container: 'JPEG',
+      hasGainMap: false,
+      details: 'Standard JPEG without HDR gain map',
+    }
+  }
+
+  // Only count metadata blocks that actually describe a gain map
+  let maxGain: number[] | undefined
+  const formats: GainMapMetadataFormat[] = []
+  const problems: string[] = []
+  if (gainMap.xmp) {
+    try {
+      const xmp = parseXmpGainMap(sliceRange(data, gainMap.xmp).toString('utf-8')).metadata
+      if (xmp) {
+        formats.push('xmp')
+        maxGain = xmp.gainMapMax
+      }
+    }
+    catch (error: any) {
+      problems.push(error.message)
+    }
+  }
+  if (gainMap.iso) {
+    try {
+      const iso = parseIsoGainMap(sliceRange(data, gainMap.iso)).metadata
+      if (iso) {
+        formats.push('iso')
+        maxGain ??= iso.gainMapMax
+      }
+    }
+    catch (error: any) {
+      problems.push(error.message)
+    }
+  }
+
+  const container = 'Ultra HDR JPEG'
+  const formatText = formats.map(format => METADATA_FORMAT_LABELS[format]).join(' + ')
+
+  if (!maxGain) {
+    return {
+      ...base,
+      isHDR: false,
+      verdict: 'unknown',
+      confidence: 'low',
+      reason: `A gain map image is present but its metadata could not be read${problems.length > 0 ? `: ${problems.join('; ')}` : ''}`,
+      container,
+      hasGainMap: true,
+      gainMapMetadata: formats,
+      details: 'Gain map with unreadable metadata',
+    }
+  }
+
+  // GainMapMax is log2 of the highest boost, a value of 0 or less never brightens anything
+  if (maxGain.every(value => value <= 0)) {
+    return {
+      ...base,
+      isHDR: false,
+      verdict: 'sdr',
+      confidence: 'medium',
+      reason: 'The gain map never brightens the SDR base (GainMapMax ≤ 0)',
+      container,
+      hasGainMap: true,
+      gainMapMetadata: formats,
+      details: `Gain map without headroom (${formatText})`,
+    }
+  }
+
+  const missing = (['xmp', 'iso'] as const).filter(format => !formats.includes(format))
+  return {
+    ...base,
+    isHDR: true,
+    verdict: 'hdr',
+    confidence: 'high',
+    reason: missing.length === 0
+      ? 'Gain map image with both XMP and ISO 21496-1 metadata'
+      : `Gain map image with ${formatText} metadata, ${METADATA_FORMAT_LABELS[missing[0]!]} is missing`,
+    container,
+    hasGainMap: true,
+    gainMapMetadata: formats,
+    details: `HDR JPEG with gain map detected (${formatText} metadata)`,
+  }
+}
+
+/**
+ * Detect the HDR transfer function from ImageMagick's verbose output (nclx properties or ICC description)
+ */
+function detectTransferFunction(identifyOutput: string): TransferFunction | undefined {
+  if (/\b(pq|smpte[ -]?st[ -]?2084|st[ -]?2084|perceptual quantizer)\b/i.test(identifyOutput)) {
+    return 'PQ'
+  }
+  if (/\b(hlg|hybrid log[- ]gamma|arib[ -]std[ -]b67)\b/i.test(identifyOutput)) {
+    return 'HLG'
+  }
+  if (/icc:description:.*srgb/i.test(identifyOutput)) {
+    return 'sRGB'
+  }
+  return undefined
+}
+
+/**
+ * Check bit depth and transfer function of an AVIF or JPEG XL file with ImageMagick
+ */
+async function validateWithMagick(data: Buffer, fileType: 'avif' | 'jxl'): Promise<HdrValidationInfo> {
+  const label = FILE_TYPE_LABELS[fileType]
+
+  let stdout: string
+  const workspace = await createWorkspace('validate')
+  try {
+    const filePath = workspace.path(`input${getInputExtension(fileType)}`)
+    await writeFile(filePath, data)
+
+    const result = await runTool('magick', ['identify', '-verbose', filePath], {
+      maxOutputBytes: 2 * 1024 * 1024,
+    })
+    stdout = result.stdout.toString('utf-8')
+  }
+  catch (error: any) {
+    // A tool failure says nothing about the image itself
+    return {
+      isHDR: false,
+      verdict: 'unknown',
+      confidence: 'low',
+      reason: `ImageMagick could not analyze the file: ${error.message}`,
+      fileType,
+      container: label,
+      error: `Failed to analyze ${label} metadata`,
+      details: 'Could not verify HDR',
+    }
+  }
+  finally {
+    await workspace.cleanup().catch(() => {})
+  }
+
+  // Use the first depth value (e.g., "10/16-bit" -> 10)
+  const depthMatch = stdout.match(/Depth:\s*(\d+)(?:\/(\d+))?-bit/i)
+  const colorSpaceMatch = stdout.match(/Colorspace:\s*(\w+)/i)
+  const bitDepth = depthMatch?.[1] ? Number.parseInt(depthMatch[1]) : undefined
+  const colorSpace = colorSpaceMatch?.[1]
+  const transferFunction = detectTransferFunction(stdout)
+
+  const base = { fileType, container: label, bitDepth, colorSpace, transferFunction }
+  const depthText = bitDepth ? `${bitDepth}-bit` : 'Unknown bit depth'
+  const suffix = `(${[colorSpace, transferFunction].filter(Boolean).join(', ') || 'no color info'})`
+
+  if (transferFunction === 'PQ' || transferFunction === 'HLG') {
+    const highPrecision = (bitDepth ?? 0) >= 10
+    return {
+      ...base,
+      isHDR: true,
+      verdict: 'hdr',
+      confidence: highPrecision ? 'high' : 'medium',
+      reason: highPrecision
+        ? `${transferFunction} transfer function at ${bitDepth} bits`
+        : `${transferFunction} transfer function, but only ${depthText.toLowerCase()} precision`,
+      details: `${depthText} HDR ${label} ${suffix}`,
+    }
+  }
+
+  if (transferFunction === 'sRGB') {
+    return {
+      ...base,
+      isHDR: false,
+      verdict: 'sdr',
+      confidence: 'high',
+      reason: 'Tagged with the sRGB transfer function',
+      details: `${depthText} ${label} with SDR transfer function ${suffix}`,
+    }
+  }
+
+  if ((bitDepth ?? 0) >= 10) {
+    return {
+      ...base,
+      isHDR: false,
+      verdict: 'unknown',
+      confidence: 'low',
+      reason: `${bitDepth}-bit, but no PQ or HLG transfer function was found; it may be HDR or high precision SDR`,
+      details: `${depthText} ${label} with unknown transfer function`,
+    }
+  }
+
+  return {
+    ...base,
+    isHDR: false,
+    verdict: 'sdr',
+    confidence: 'medium',
+    reason: `${depthText} without an HDR transfer function`,
+    details: `${depthText} SDR ${label} - needs 10-bit or higher for HDR`,
+  }
+}
+
+/**
+ * Decide whether an upload is HDR, with the evidence behind the verdict.
+ * Tool and parsing failures give an 'unknown' verdict rather than 'sdr'.
+ */
+export async function validateHdr(data: Buffer, fileType: ImageFileType): Promise<HdrValidationInfo> {
+  if (fileType === 'jpeg') {
+    return validateJpeg(data)
+  }
+  return validateWithMagick(data, fileType)
+}
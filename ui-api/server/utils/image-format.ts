@@ -0,0 +1,118 @@
+import type { ImageFileType } from '~/types'
+
+export type DetectedImageFormat = ImageFileType | 'heic' | 'png' | 'gif' | 'webp' | 'tiff' | 'unknown'
+
+// ISOBMFF brands that identify AVIF and HEIC/HEIF images
+const AVIF_BRANDS = new Set(['avif', 'avis'])
+const HEIC_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'])
+
+// JPEG XL ISOBMFF container signature
+const JXL_CONTAINER_SIGNATURE = [0x00, 0x00, 0x00, 0x0C, 0x4A, 0x58, 0x4C, 0x20, 0x0D, 0x0A, 0x87, 0x0A]
+
+const FORMAT_LABELS: Record<DetectedImageFormat, string> = {
+  jpeg: 'JPEG',
+  avif: 'AVIF',
+  jxl: 'JPEG XL',
+  heic: 'HEIC/HEIF',
+  png: 'PNG',
+  gif: 'GIF',
+  webp: 'WebP',
+  tiff: 'TIFF',
+  unknown: 'unknown',
+}
+
+/**
+ * Raised when an upload is not one of the supported HDR containers
+ */
+export class UnsupportedFormatError extends Error {
+  readonly code = 'UNSUPPORTED_FORMAT' as const
+  readonly detectedFormat: DetectedImageFormat
+
+  constructor(detectedFormat: DetectedImageFormat, fileName: string) {
+    const detected = detectedFormat === 'unknown'
+      ? 'an unrecognized format'
+      : `a ${FORMAT_LABELS[detectedFormat]} image`
+    super(`Unsupported format: ${fileName} is ${detected}. Only AVIF, JPEG and JXL files are supported`)
+    this.name = 'UnsupportedFormatError'
+    this.detectedFormat = detectedFormat
+  }
+}
+
+function startsWith(data: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, index) => data[offset + index] === byte)
+}
+
+function readAscii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length))
+}
+
+/**
+ * Read the major and compatible brands from an ISOBMFF `ftyp` box
+ */
+function readFtypBrands(data: Uint8Array): string[] | null {
+  if (data.length < 16 || readAscii(data, 4, 4) !== 'ftyp') {
+    return null
+  }
+
+  const boxSize = ((data[0]! << 24) | (data[1]! << 16) | (data[2]! << 8) | data[3]!) >>> 0
+  const end = Math.min(boxSize || data.length, data.length)
+
+  // Major brand, then compatible brands after the 4-byte minor version
+  const brands = [readAscii(data, 8, 4)]
+  for (let offset = 16; offset + 4 <= end; offset += 4) {
+    brands.push(readAscii(data, offset, 4))
+  }
+  return brands
+}
+
+/**
+ * Identify the image container from its header bytes
+ */
+export function detectImageFormat(data: Uint8Array): DetectedImageFormat {
+  // JPEG: SOI followed by another marker (APPn, DQT, SOF, COM...)
+  if (data[0] === 0xFF && data[1] === 0xD8 && data[2] === 0xFF && (data[3] ?? 0) >= 0xC0) {
+    return 'jpeg'
+  }
+
+  // JPEG XL: bare codestream or ISOBMFF container
+  if ((data[0] === 0xFF && data[1] === 0x0A) || startsWith(data, JXL_CONTAINER_SIGNATURE)) {
+    return 'jxl'
+  }
+
+  const brands = readFtypBrands(data)
+  if (brands) {
+    const [majorBrand] = brands
+    if (majorBrand && AVIF_BRANDS.has(majorBrand)) return 'avif'
+    if (majorBrand && HEIC_BRANDS.has(majorBrand) && !brands.some(brand => AVIF_BRANDS.has(brand))) return 'heic'
+    if (brands.some(brand => AVIF_BRANDS.has(brand))) return 'avif'
+    if (brands.some(brand => HEIC_BRANDS.has(brand))) return 'heic'
+    return 'unknown'
+  }
+
+  if (startsWith(data, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) return 'png'
+  if (readAscii(data, 0, 4) === 'GIF8') return 'gif'
+  if (readAscii(data, 0, 4) === 'RIFF' && readAscii(data, 8, 4) === 'WEBP') return 'webp'
+  if (startsWith(data, [0x49, 0x49, 0x2A, 0x00]) || startsWith(data, [0x4D, 0x4D, 0x00, 0x2A])) return 'tiff'
+
+  return 'unknown'
+}
+
+/**
+ * Detect the upload's format and make sure the pipeline can handle it
+ */
+export function detectInputType(data: Uint8Array, fileName: string): ImageFileType {
+  const format = detectImageFormat(data)
+
+  if (format !== 'jpeg' && format !== 'avif' && format !== 'jxl') {
+    throw new UnsupportedFormatError(format, fileName)
+  }
+
+  return format
+}
+
+/**
+ * File extension the conversion script expects for a given input type
+ */
+export function getInputExtension(fileType: ImageFileType): string {
+  return fileType === 'jpeg' ? '.jpg' : `.${fileType}`
+}
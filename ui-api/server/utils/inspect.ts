@@ -0,0 +1,145 @@
+import type { ImageFileType, InspectedImage, InspectionReport, MpfEntryInfo } from '~/types'
+
+/**
+ * Describe one JPEG codestream: its segments, frame header and gain map metadata blocks
+ */
+function inspectJpegImage(data: Buffer, offset: number, size: number, warnings: string[]): InspectedImage {
+  const segments = readJpegSegments(data, offset)
+  const frame = readJpegFrame(segments)
+
+  const image: InspectedImage = {
+    role: 'other',
+    offset,
+    size,
+    width: frame?.width,
+    height: frame?.height,
+    bitDepth: frame?.bitDepth,
+    subsampling: frame?.subsampling,
+    segments: segments.map(segment => ({
+      marker: getMarkerName(segment.marker),
+      offset: segment.offset,
+      length: segment.length,
+      kind: getSegmentKind(segment),
+    })),
+    xmp: null,
+    iso: null,
+  }
+
+  const xmpSegment = findSegment(segments, 'xmp')
+  if (xmpSegment) {
+    try {
+      const xmp = parseXmpGainMap(getSegmentPayload(xmpSegment, 'xmp').toString('utf-8'))
+      image.hdrgmVersion = xmp.version
+      image.xmp = xmp.metadata
+    }
+    catch (error: any) {
+      warnings.push(`Image at offset ${offset}: ${error.message}`)
+    }
+  }
+
+  const isoSegment = findSegment(segments, 'iso21496')
+  if (isoSegment) {
+    try {
+      const iso = parseIsoGainMap(getSegmentPayload(isoSegment, 'iso21496'))
+      image.isoVersion = `${iso.minimumVersion} (writer ${iso.writerVersion})`
+      image.iso = iso.metadata
+    }
+    catch (error: any) {
+      warnings.push(`Image at offset ${offset}: ${error.message}`)
+    }
+  }
+
+  return image
+}
+
+/**
+ * Walk a JPEG and every image its MPF index points to
+ */
+function inspectJpeg(data: Buffer, report: InspectionReport): void {
+  const primarySegments = readJpegSegments(data)
+  const mpfSegment = findSegment(primarySegments, 'mpf')
+
+  let entries: MpfEntryInfo[] = []
+  if (mpfSegment) {
+    try {
+      entries = readMpfEntries(mpfSegment)
+      report.mpf = entries
+    }
+    catch (error: any) {
+      report.warnings.push(`MPF index: ${error.message}`)
+    }
+  }
+  else {
+    report.warnings.push('No MPF index, secondary images such as a gain map cannot be located')
+  }
+
+  const primarySize = entries[0]?.size || data.length
+  const primary = inspectJpegImage(data, 0, primarySize, report.warnings)
+  primary.role = 'primary'
+  report.images.push(primary)
+
+  for (const entry of entries.slice(1)) {
+    if (entry.offset + entry.size > data.length) {
+      report.warnings.push(`MPF image ${entry.index} at offset ${entry.offset} runs past the end of the file`)
+      continue
+    }
+
+    try {
+      const image = inspectJpegImage(data, entry.offset, entry.size, report.warnings)
+      if (image.xmp || image.iso) {
+        image.role = 'gainMap'
+      }
+      report.images.push(image)
+    }
+    catch (error: any) {
+      report.warnings.push(`MPF image ${entry.index}: ${error.message}`)
+    }
+  }
+
+  const gainMapImage = report.images.find(image => image.role === 'gainMap')
+  if (gainMapImage) {
+    report.gainMap = {
+      xmp: gainMapImage.xmp,
+      iso: gainMapImage.iso,
+      comparison: compareGainMapMetadata(gainMapImage.xmp, gainMapImage.iso),
+    }
+    if (!gainMapImage.xmp) report.warnings.push('Gain map has no XMP hdrgm metadata')
+    if (!gainMapImage.iso) report.warnings.push('Gain map has no ISO 21496-1 metadata')
+  }
+  else {
+    report.warnings.push('No gain map image found')
+  }
+}
+
+/**
+ * Build a structured report of an image's container layout and gain map metadata.
+ * Only JPEG files are walked; AVIF and JPEG XL files get a basic report.
+ */
+export function inspectImage(data: Buffer, fileName: string, fileType: ImageFileType): InspectionReport {
+  const report: InspectionReport = {
+    fileName,
+    fileType,
+    fileSize: data.length,
+    images: [],
+    mpf: null,
+    gainMap: null,
+    warnings: [],
+  }
+
+  if (fileType !== 'jpeg') {
+    report.warnings.push('Gain map inspection is only available for JPEG files')
+    return report
+  }
+
+  try {
+    inspectJpeg(data, report)
+  }
+  catch (error: any) {
+    if (!(error instanceof JpegFormatError)) {
+      throw error
+    }
+    report.warnings.push(error.message)
+  }
+
+  return report
+}
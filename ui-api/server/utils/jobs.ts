@@ -0,0 +1,274 @@
+import { randomUUID } from 'node:crypto'
+import { EventEmitter } from 'node:events'
+import type { JobProgressEvent, JobState } from '~/types'
+
+export interface ConversionJob extends JobState {
+  input: ConversionInput
+  reporter: ProgressReporter
+  workspace?: Workspace // Holds the result files of a finished job
+  abortController: AbortController
+  apiKeyId?: string // Key the job was created with, counted against its job limit
+  finished: Promise<void>
+  markFinished: () => void
+}
+
+export interface JobListeners {
+  onProgress: (event: JobProgressEvent) => void
+  onFinished: (state: JobState) => void
+}
+
+// Finished jobs are kept around this long so clients can still poll them
+const JOB_RETENTION_MS = 60 * 60 * 1000
+
+const jobs = new Map<string, ConversionJob>()
+const queue: ConversionJob[] = []
+let runningCount = 0
+
+// Emits `<id>:progress` and `<id>:finished` for live subscribers (SSE)
+const jobEvents = new EventEmitter()
+jobEvents.setMaxListeners(0)
+
+/**
+ * Maximum number of conversions allowed to run at the same time
+ */
+function getMaxConcurrentJobs(): number {
+  const { maxConcurrentJobs } = useRuntimeConfig()
+  return Math.max(1, Number(maxConcurrentJobs) || 1)
+}
+
+/**
+ * Drop finished jobs older than the retention window, together with their result files
+ */
+function pruneFinishedJobs(): void {
+  const cutoff = Date.now() - JOB_RETENTION_MS
+  for (const [id, job] of jobs) {
+    if (job.finishedAt && job.finishedAt < cutoff) {
+      jobs.delete(id)
+      job.workspace?.cleanup().catch((error: any) => {
+        console.warn(`Could not remove workspace of job ${id}: ${error.message}`)
+      })
+    }
+  }
+}
+
+/**
+ * Drop finished jobs whose workspace the sweeper has removed, so they are not reported with missing results
+ */
+export function forgetSweptJobs(removedDirs: string[]): void {
+  const removed = new Set(removedDirs)
+  for (const [id, job] of jobs) {
+    if (job.workspace && removed.has(job.workspace.dir)) {
+      jobs.delete(id)
+    }
+  }
+}
+
+/**
+ * Record that a job has stopped and notify subscribers
+ */
+function finishJob(job: ConversionJob): void {
+  job.finishedAt = Date.now()
+  // The uploaded bytes are no longer needed once the job has finished
+  job.input = { ...job.input, data: Buffer.alloc(0) }
+  job.markFinished()
+  jobEvents.emit(`${job.id}:finished`, toJobState(job))
+}
+
+/**
+ * Whether a job has stopped, successfully or not
+ */
+export function isJobFinished(job: JobState): boolean {
+  return job.status === 'done' || job.status === 'failed' || job.status === 'cancelled'
+}
+
+/**
+ * Execute a single job and record its outcome
+ */
+async function runJob(job: ConversionJob): Promise<void> {
+  job.status = 'running'
+  job.startedAt = Date.now()
+  job.reporter.log(`Job ${job.id} started`)
+
+  let workspace: Workspace | undefined
+  try {
+    workspace = await createWorkspace(`job-${job.id}`)
+    const { signal } = job.abortController
+    job.result = await convertImage(job.id, job.input, workspace, job.reporter, signal)
+    // A cancel that arrives while the results are read still wins
+    signal.throwIfAborted()
+    job.workspace = workspace
+    job.status = 'done'
+  }
+  catch (error: any) {
+    if (job.abortController.signal.aborted) {
+      job.result = undefined
+      job.error = 'Conversion cancelled'
+      job.reporter.setStage('cancelled')
+      job.reporter.log('Conversion cancelled', 'warning')
+      job.status = 'cancelled'
+      return
+    }
+    console.error(`Conversion job ${job.id} failed:`, error)
+    job.error = error.message || 'Unknown error occurred'
+    job.reporter.setStage('failed')
+    job.reporter.log(`Conversion failed: ${job.error}`, 'error')
+    job.status = 'failed'
+  }
+  finally {
+    // Successful jobs keep their result files until the job or the workspace expires
+    if (job.workspace) {
+      job.workspace.release()
+    }
+    else {
+      try {
+        await workspace?.cleanup()
+      }
+      catch (cleanupError: any) {
+        job.reporter.log(`Workspace cleanup warning: ${cleanupError.message}`, 'warning')
+      }
+    }
+
+    finishJob(job)
+  }
+}
+
+/**
+ * Start queued jobs while there are free slots
+ */
+function drainQueue(): void {
+  while (runningCount < getMaxConcurrentJobs() && queue.length > 0) {
+    const job = queue.shift()!
+    runningCount++
+    runJob(job).finally(() => {
+      runningCount--
+      drainQueue()
+    })
+  }
+}
+
+/**
+ * Queue a new conversion job
+ */
+export function createConversionJob(input: ConversionInput, apiKeyId?: string): ConversionJob {
+  pruneFinishedJobs()
+
+  let markFinished!: () => void
+  const finished = new Promise<void>((resolve) => {
+    markFinished = resolve
+  })
+
+  const id = randomUUID()
+  const reporter = createProgressReporter((event) => {
+    const job = jobs.get(id)
+    if (job) {
+      job.stage = event.stage
+      job.stageLabel = event.stageLabel
+      job.progress = event.progress
+    }
+    jobEvents.emit(`${id}:progress`, event)
+  })
+
+  const job: ConversionJob = {
+    id,
+    fileName: input.fileName,
+    status: 'queued',
+    stage: reporter.stage,
+    stageLabel: getStageLabel(reporter.stage),
+    progress: reporter.progress,
+    logs: reporter.logs,
+    createdAt: Date.now(),
+    input,
+    reporter,
+    abortController: new AbortController(),
+    apiKeyId,
+    finished,
+    markFinished,
+  }
+
+  jobs.set(job.id, job)
+  reporter.log(`Job queued (${queue.length} ahead)`)
+  queue.push(job)
+  drainQueue()
+
+  return job
+}
+
+/**
+ * Look up a job by ID on behalf of a client. Jobs created with an API key are only found with that same key,
+ * so other clients cannot tell them apart from jobs that do not exist.
+ */
+export function getConversionJob(id: string, apiKeyId: string | undefined): ConversionJob | undefined {
+  const job = jobs.get(id)
+  if (job?.apiKeyId && job.apiKeyId !== apiKeyId) {
+    return undefined
+  }
+  return job
+}
+
+/**
+ * Number of queued or running jobs created with an API key
+ */
+export function countActiveJobs(apiKeyId: string): number {
+  let count = 0
+  for (const job of jobs.values()) {
+    if (job.apiKeyId === apiKeyId && !isJobFinished(job)) count++
+  }
+  return count
+}
+
+/**
+ * Cancel a queued or running job. Finished jobs are left as they are.
+ */
+export function cancelConversionJob(job: ConversionJob): void {
+  if (isJobFinished(job) || job.abortController.signal.aborted) {
+    return
+  }
+
+  job.abortController.abort()
+  const queueIndex = queue.indexOf(job)
+  if (queueIndex !== -1) {
+    // Never started, so there is no script to stop or workspace to clean up
+    queue.splice(queueIndex, 1)
+    job.reporter.setStage('cancelled')
+    job.reporter.log('Conversion cancelled before it started', 'warning')
+    job.error = 'Conversion cancelled'
+    job.status = 'cancelled'
+    finishJob(job)
+  }
+  else {
+    job.reporter.log('Cancelling conversion...', 'warning')
+  }
+}
+
+/**
+ * Subscribe to live progress of a job. Returns an unsubscribe function.
+ */
+export function subscribeToJob(id: string, listeners: JobListeners): () => void {
+  jobEvents.on(`${id}:progress`, listeners.onProgress)
+  jobEvents.on(`${id}:finished`, listeners.onFinished)
+
+  return () => {
+    jobEvents.off(`${id}:progress`, listeners.onProgress)
+    jobEvents.off(`${id}:finished`, listeners.onFinished)
+  }
+}
+
+/**
+ * Public view of a job, without the upload buffer and internal handles
+ */
+export function toJobState(job: ConversionJob): JobState {
+  return {
+    id: job.id,
+    fileName: job.fileName,
+    status: job.status,
+    stage: job.stage,
+    stageLabel: job.stageLabel,
+    progress: job.progress,
+    logs: job.logs,
+    result: job.result,
+    error: job.error,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+  }
+}
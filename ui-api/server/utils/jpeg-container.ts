@@ -0,0 +1,333 @@
+import type { JpegSampling, JpegSegmentKind, MpfEntryInfo } from '~/types'
+
+export interface ByteRange {
+  offset: number
+  length: number
+}
+
+export interface JpegSegment {
+  marker: number
+  offset: number // Position of the 0xFF marker byte in the file
+  length: number // Whole segment, marker included
+  data: Buffer // Payload after the length field
+}
+
+export interface JpegFrame {
+  width: number
+  height: number
+  bitDepth: number
+  components: number
+  subsampling: JpegSampling
+}
+
+// One codestream inside a file, with the segments that describe its gain map
+export interface JpegImageLayout {
+  range: ByteRange
+  frame?: JpegFrame
+  xmp?: ByteRange // XMP packet, after the APP1 signature
+  iso?: ByteRange // ISO 21496-1 data, after the APP2 namespace
+}
+
+export interface GainMapJpegLayout {
+  primary: JpegImageLayout
+  gainMap: JpegImageLayout | null
+}
+
+// Markers that stand alone without a length field
+const STANDALONE_MARKERS = new Set([0x01, 0xD0, 0xD1, 0xD2, 0xD3, 0xD4, 0xD5, 0xD6, 0xD7, 0xD8, 0xD9])
+
+// Start of frame markers (all except DHT, JPG and DAC in the 0xC0-0xCF range)
+const SOF_MARKERS = new Set([0xC0, 0xC1, 0xC2, 0xC3, 0xC5, 0xC6, 0xC7, 0xC9, 0xCA, 0xCB, 0xCD, 0xCE, 0xCF])
+
+const SOS_MARKER = 0xDA
+
+// Identifier strings at the start of APPn payloads
+const APP_SIGNATURES: { marker: number, signature: string, kind: JpegSegmentKind }[] = [
+  { marker: 0xE0, signature: 'JFIF\0', kind: 'jfif' },
+  { marker: 0xE1, signature: 'Exif\0\0', kind: 'exif' },
+  { marker: 0xE1, signature: 'http://ns.adobe.com/xap/1.0/\0', kind: 'xmp' },
+  { marker: 0xE1, signature: 'http://ns.adobe.com/xmp/extension/\0', kind: 'xmp-extended' },
+  { marker: 0xE2, signature: 'ICC_PROFILE\0', kind: 'icc' },
+  { marker: 0xE2, signature: 'MPF\0', kind: 'mpf' },
+  { marker: 0xE2, signature: 'urn:iso:std:iso:ts:21496:-1\0', kind: 'iso21496' },
+  { marker: 0xEE, signature: 'Adobe', kind: 'adobe' },
+]
+
+// MP Entry image type codes (CIPA DC-007, bits 0-23 of the attribute)
+const MPF_IMAGE_TYPES: Record<number, string> = {
+  0x000000: 'Undefined',
+  0x010001: 'Large thumbnail (VGA)',
+  0x010002: 'Large thumbnail (Full HD)',
+  0x020001: 'Multi-frame panorama',
+  0x020002: 'Multi-frame disparity',
+  0x020003: 'Multi-frame multi-angle',
+  0x030000: 'Baseline MP primary image',
+}
+
+const MPF_ENTRY_TAG = 0xB002
+const MPF_ENTRY_SIZE = 16
+
+/**
+ * Raised when the bytes do not form a readable JPEG marker structure
+ */
+export class JpegFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JpegFormatError'
+  }
+}
+
+/**
+ * Name of a marker as used in the JPEG spec, e.g. APP1, DQT or SOF0
+ */
+export function getMarkerName(marker: number): string {
+  if (marker >= 0xE0 && marker <= 0xEF) return `APP${marker - 0xE0}`
+  if (SOF_MARKERS.has(marker)) return `SOF${marker - 0xC0}`
+  if (marker >= 0xD0 && marker <= 0xD7) return `RST${marker - 0xD0}`
+
+  const names: Record<number, string> = {
+    0xC4: 'DHT',
+    0xCC: 'DAC',
+    0xD8: 'SOI',
+    0xD9: 'EOI',
+    0xDA: 'SOS',
+    0xDB: 'DQT',
+    0xDD: 'DRI',
+    0xFE: 'COM',
+  }
+  return names[marker] ?? `0x${marker.toString(16).toUpperCase()}`
+}
+
+/**
+ * Walk the marker segments of the JPEG starting at `start`, up to and including the first SOS.
+ * Entropy-coded data is not scanned.
+ */
+export function readJpegSegments(buffer: Buffer, start = 0): JpegSegment[] {
+  if (buffer[start] !== 0xFF || buffer[start + 1] !== 0xD8) {
+    throw new JpegFormatError(`No JPEG start of image marker at offset ${start}`)
+  }
+
+  const segments: JpegSegment[] = []
+  let offset = start + 2
+
+  while (offset < buffer.length) {
+    if (buffer[offset] !== 0xFF) {
+      throw new JpegFormatError(`Expected a marker at offset ${offset}`)
+    }
+
+    // Any number of 0xFF fill bytes may precede a marker
+    while (buffer[offset + 1] === 0xFF) {
+      offset++
+    }
+
+    const markerOffset = offset
+    const marker = buffer[offset + 1]
+    if (marker === undefined) {
+      break
+    }
+
+    if (STANDALONE_MARKERS.has(marker)) {
+      segments.push({ marker, offset: markerOffset, length: 2, data: buffer.subarray(offset + 2, offset + 2) })
+      offset += 2
+      if (marker === 0xD9) break
+      continue
+    }
+
+    if (offset + 4 > buffer.length) {
+      throw new JpegFormatError(`Truncated ${getMarkerName(marker)} segment at offset ${markerOffset}`)
+    }
+
+    const length = buffer.readUInt16BE(offset + 2)
+    const end = offset + 2 + length
+    if (length < 2 || end > buffer.length) {
+      throw new JpegFormatError(`${getMarkerName(marker)} segment at offset ${markerOffset} runs past the end of the file`)
+    }
+
+    segments.push({ marker, offset: markerOffset, length: length + 2, data: buffer.subarray(offset + 4, end) })
+    offset = end
+
+    if (marker === SOS_MARKER) break
+  }
+
+  return segments
+}
+
+/**
+ * Identify what an APPn segment carries from its signature
+ */
+export function getSegmentKind(segment: JpegSegment): JpegSegmentKind | undefined {
+  return APP_SIGNATURES.find(({ marker, signature }) =>
+    marker === segment.marker && segment.data.subarray(0, signature.length).toString('latin1') === signature,
+  )?.kind
+}
+
+/**
+ * Payload of an APPn segment after its signature
+ */
+export function getSegmentPayload(segment: JpegSegment, kind: JpegSegmentKind): Buffer {
+  const entry = APP_SIGNATURES.find(app => app.kind === kind)!
+  return segment.data.subarray(entry.signature.length)
+}
+
+/**
+ * First segment of the given kind
+ */
+export function findSegment(segments: JpegSegment[], kind: JpegSegmentKind): JpegSegment | undefined {
+  return segments.find(segment => getSegmentKind(segment) === kind)
+}
+
+/**
+ * Describe the chroma subsampling from the luma and chroma sampling factors
+ */
+function getSampling(factors: { h: number, v: number }[]): JpegSampling {
+  const [luma, ...chroma] = factors
+  if (!luma || chroma.length === 0) return '400'
+
+  const horizontal = luma.h / chroma[0]!.h
+  const vertical = luma.v / chroma[0]!.v
+  if (chroma.some(c => c.h !== chroma[0]!.h || c.v !== chroma[0]!.v)) return 'other'
+  if (horizontal === 1 && vertical === 1) return '444'
+  if (horizontal === 2 && vertical === 1) return '422'
+  if (horizontal === 2 && vertical === 2) return '420'
+  if (horizontal === 1 && vertical === 2) return '440'
+  if (horizontal === 4 && vertical === 1) return '411'
+  return 'other'
+}
+
+/**
+ * Read dimensions, precision and chroma subsampling from the start of frame segment
+ */
+export function readJpegFrame(segments: JpegSegment[]): JpegFrame | undefined {
+  const sof = segments.find(segment => SOF_MARKERS.has(segment.marker))
+  if (!sof || sof.data.length < 6) {
+    return undefined
+  }
+
+  const components = sof.data[5]!
+  const factors: { h: number, v: number }[] = []
+  for (let i = 0; i < components && 6 + i * 3 + 2 < sof.data.length; i++) {
+    const sampling = sof.data[6 + i * 3 + 1]!
+    factors.push({ h: sampling >> 4, v: sampling & 0x0F })
+  }
+
+  return {
+    bitDepth: sof.data[0]!,
+    height: sof.data.readUInt16BE(1),
+    width: sof.data.readUInt16BE(3),
+    components,
+    subsampling: getSampling(factors),
+  }
+}
+
+/**
+ * Parse the MP Index IFD of an APP2 MPF segment.
+ * Image offsets are converted from MPF-relative to absolute file offsets.
+ */
+export function readMpfEntries(segment: JpegSegment): MpfEntryInfo[] {
+  const tiff = getSegmentPayload(segment, 'mpf')
+  // Offsets in the MP Entry are relative to the TIFF header, after the marker, length and 'MPF\0'
+  const tiffStart = segment.offset + 8
+
+  if (tiff.length < 8) {
+    throw new JpegFormatError('MPF segment is too short')
+  }
+
+  const byteOrder = tiff.subarray(0, 2).toString('latin1')
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    throw new JpegFormatError(`MPF segment has an invalid byte order: ${byteOrder}`)
+  }
+  const littleEndian = byteOrder === 'II'
+  const u16 = (at: number): number => littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at)
+  const u32 = (at: number): number => littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at)
+
+  const ifdOffset = u32(4)
+  if (ifdOffset + 2 > tiff.length) {
+    throw new JpegFormatError('MPF index IFD is out of range')
+  }
+
+  const entryCount = u16(ifdOffset)
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12
+    if (entry + 12 > tiff.length) break
+    if (u16(entry) !== MPF_ENTRY_TAG) continue
+
+    const byteCount = u32(entry + 4)
+    const valueOffset = u32(entry + 8)
+    if (valueOffset + byteCount > tiff.length) {
+      throw new JpegFormatError('MP Entry data is out of range')
+    }
+
+    const images: MpfEntryInfo[] = []
+    // Only whole 16-byte entries are read, a truncated trailing entry is ignored
+    for (let index = 0; (index + 1) * MPF_ENTRY_SIZE <= byteCount; index++) {
+      const at = valueOffset + index * MPF_ENTRY_SIZE
+      const attribute = u32(at)
+      const offset = u32(at + 8)
+      images.push({
+        index,
+        type: MPF_IMAGE_TYPES[attribute & 0xFFFFFF] ?? `Unknown (0x${(attribute & 0xFFFFFF).toString(16).padStart(6, '0')})`,
+        // The first image always starts at the beginning of the file
+        offset: offset === 0 ? 0 : tiffStart + offset,
+        size: u32(at + 4),
+      })
+    }
+    return images
+  }
+
+  throw new JpegFormatError('MPF segment has no MP Entry tag')
+}
+
+/**
+ * Locate the metadata segments of the codestream at `offset`
+ */
+function readImageLayout(buffer: Buffer, offset: number, length: number): JpegImageLayout {
+  const segments = readJpegSegments(buffer, offset)
+  const layout: JpegImageLayout = {
+    range: { offset, length },
+    frame: readJpegFrame(segments),
+  }
+
+  const payloadRange = (segment: JpegSegment | undefined, kind: JpegSegmentKind): ByteRange | undefined => {
+    if (!segment) return undefined
+    const payload = getSegmentPayload(segment, kind)
+    return { offset: payload.byteOffset - buffer.byteOffset, length: payload.length }
+  }
+
+  layout.xmp = payloadRange(findSegment(segments, 'xmp'), 'xmp')
+  layout.iso = payloadRange(findSegment(segments, 'iso21496'), 'iso21496')
+  return layout
+}
+
+/**
+ * Find the primary image and the gain map of an Ultra HDR / ISO 21496-1 JPEG from its MPF index,
+ * without decoding any image data. `gainMap` is null for plain JPEGs.
+ */
+export function readGainMapLayout(buffer: Buffer): GainMapJpegLayout {
+  const segments = readJpegSegments(buffer)
+  const mpfSegment = findSegment(segments, 'mpf')
+  const entries = mpfSegment ? readMpfEntries(mpfSegment) : []
+
+  const primary = readImageLayout(buffer, 0, entries[0]?.size || buffer.length)
+
+  for (const entry of entries.slice(1)) {
+    if (entry.offset + entry.size > buffer.length) {
+      throw new JpegFormatError(`MPF image ${entry.index} runs past the end of the file`)
+    }
+
+    // The gain map is the secondary image that carries gain map metadata
+    const image = readImageLayout(buffer, entry.offset, entry.size)
+    const hasHdrgm = image.xmp && sliceRange(buffer, image.xmp).includes('hdrgm:')
+    if (image.iso || hasHdrgm) {
+      return { primary, gainMap: image }
+    }
+  }
+
+  return { primary, gainMap: null }
+}
+
+/**
+ * Bytes covered by a range, without copying
+ */
+export function sliceRange(buffer: Buffer, range: ByteRange): Buffer {
+  return buffer.subarray(range.offset, range.offset + range.length)
+}
@@ -0,0 +1,267 @@
+export type JxlColorSpace = 'rgb' | 'grey' | 'xyb' | 'unknown'
+
+// Colour description from the codestream's ImageMetadata (ISO/IEC 18181-1). The enum values follow
+// ITU-T H.273 where both define the same thing, e.g. transfer 16 is PQ and 18 is HLG in both.
+export interface JxlColorEncoding {
+  colorSpace: JxlColorSpace
+  iccProfile: boolean // The fields below are replaced by an ICC profile later in the codestream
+  whitePoint?: number // 1 D65, 2 custom, 10 E, 11 DCI
+  primaries?: number // 1 sRGB, 2 custom, 9 BT.2100, 11 P3
+  transferFunction?: number // 1 BT.709, 2 unknown, 8 linear, 13 sRGB, 16 PQ, 17 DCI, 18 HLG
+  gamma?: number // Set instead of the transfer function for pure gamma curves
+}
+
+// One of the four choices of a U32 field: a constant, or some bits added to an offset
+type U32Distribution = number | { bits: number, offset: number }
+
+interface BitReader {
+  bits: (count: number) => number
+  bool: () => boolean
+  u32: (...distributions: U32Distribution[]) => number
+  enum: () => number
+}
+
+const COLOR_SPACES: JxlColorSpace[] = ['rgb', 'grey', 'xyb', 'unknown']
+
+const CODESTREAM_SIGNATURE = [0xFF, 0x0A]
+const CONTAINER_SIGNATURE = [0x00, 0x00, 0x00, 0x0C, 0x4A, 0x58, 0x4C, 0x20, 0x0D, 0x0A, 0x87, 0x0A]
+
+// The image header is a few hundred bytes at most, even with named extra channels
+const MAX_HEADER_BYTES = 64 * 1024
+
+const ENUM_VALUES: U32Distribution[] = [0, 1, { bits: 4, offset: 2 }, { bits: 6, offset: 18 }]
+const CUSTOM_XY: U32Distribution[] = [
+  { bits: 19, offset: 0 },
+  { bits: 19, offset: 524288 },
+  { bits: 20, offset: 1048576 },
+  { bits: 21, offset: 2097152 },
+]
+
+const EXTRA_CHANNEL_ALPHA = 0
+const EXTRA_CHANNEL_SPOT_COLOR = 2
+const EXTRA_CHANNEL_CFA = 5
+const WHITE_POINT_CUSTOM = 2
+const PRIMARIES_CUSTOM = 2
+const GAMMA_SCALE = 1e7
+
+/**
+ * Raised when the bytes do not hold a readable JPEG XL image header
+ */
+export class JxlFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JxlFormatError'
+  }
+}
+
+function startsWith(data: Buffer, signature: number[]): boolean {
+  return signature.every((byte, index) => data[index] === byte)
+}
+
+/**
+ * Reader for the codestream's bit packing: fields are stored least significant bit first
+ */
+function createBitReader(data: Buffer): BitReader {
+  let position = 0
+
+  const bits = (count: number): number => {
+    let value = 0
+    for (let bit = 0; bit < count; bit++) {
+      const byte = data[position >> 3]
+      if (byte === undefined) {
+        throw new JxlFormatError('The JPEG XL image header is truncated')
+      }
+      value += ((byte >> (position & 7)) & 1) * 2 ** bit
+      position++
+    }
+    return value
+  }
+
+  const u32 = (...distributions: U32Distribution[]): number => {
+    const distribution = distributions[bits(2)]!
+    return typeof distribution === 'number' ? distribution : distribution.offset + bits(distribution.bits)
+  }
+
+  return {
+    bits,
+    bool: () => bits(1) === 1,
+    u32,
+    enum: () => u32(...ENUM_VALUES),
+  }
+}
+
+/**
+ * Codestream bytes of a bare codestream or an ISOBMFF container (`jxlc`, or `jxlp` parts in order)
+ */
+function readCodestreamStart(data: Buffer): Buffer {
+  if (startsWith(data, CODESTREAM_SIGNATURE)) {
+    return data.subarray(0, MAX_HEADER_BYTES)
+  }
+  if (!startsWith(data, CONTAINER_SIGNATURE)) {
+    throw new JxlFormatError('Not a JPEG XL codestream or container')
+  }
+
+  const parts: Buffer[] = []
+  let collected = 0
+  let offset = 0
+  while (offset + 8 <= data.length && collected < MAX_HEADER_BYTES) {
+    let size = data.readUInt32BE(offset)
+    const type = data.toString('latin1', offset + 4, offset + 8)
+    let header = 8
+    if (size === 1) {
+      if (offset + 16 > data.length) break
+      size = Number(data.readBigUInt64BE(offset + 8))
+      header = 16
+    }
+    else if (size === 0) {
+      size = data.length - offset
+    }
+    if (size < header) {
+      throw new JxlFormatError(`Invalid ${type} box size at offset ${offset}`)
+    }
+
+    const end = Math.min(offset + size, data.length)
+    if (type === 'jxlc') {
+      return data.subarray(offset + header, Math.min(end, offset + header + MAX_HEADER_BYTES))
+    }
+    // Partial codestreams start with a 4-byte index
+    if (type === 'jxlp' && end >= offset + header + 4) {
+      const part = data.subarray(offset + header + 4, end)
+      parts.push(part)
+      collected += part.length
+    }
+    offset += size
+  }
+
+  if (parts.length === 0) {
+    throw new JxlFormatError('The JPEG XL container has no codestream box')
+  }
+  return Buffer.concat(parts)
+}
+
+function skipSizeHeader(reader: BitReader): void {
+  const small = reader.bool()
+  const size: U32Distribution[] = [{ bits: 9, offset: 1 }, { bits: 13, offset: 1 }, { bits: 18, offset: 1 }, { bits: 30, offset: 1 }]
+  if (small) reader.bits(5)
+  else reader.u32(...size)
+  if (reader.bits(3) === 0) {
+    if (small) reader.bits(5)
+    else reader.u32(...size)
+  }
+}
+
+function skipPreviewHeader(reader: BitReader): void {
+  const div8 = reader.bool()
+  const size: U32Distribution[] = div8
+    ? [16, 32, { bits: 5, offset: 1 }, { bits: 9, offset: 33 }]
+    : [{ bits: 6, offset: 1 }, { bits: 8, offset: 65 }, { bits: 10, offset: 321 }, { bits: 12, offset: 1345 }]
+  reader.u32(...size)
+  if (reader.bits(3) === 0) {
+    reader.u32(...size)
+  }
+}
+
+function skipAnimationHeader(reader: BitReader): void {
+  reader.u32(100, 1000, { bits: 10, offset: 1 }, { bits: 30, offset: 1 })
+  reader.u32(1, 1001, { bits: 8, offset: 1 }, { bits: 10, offset: 1 })
+  reader.u32(0, { bits: 3, offset: 0 }, { bits: 16, offset: 0 }, { bits: 32, offset: 0 })
+  reader.bool()
+}
+
+function skipBitDepth(reader: BitReader): void {
+  if (reader.bool()) {
+    reader.u32(32, 16, 24, { bits: 6, offset: 1 })
+    reader.bits(4)
+  }
+  else {
+    reader.u32(8, 10, 12, { bits: 6, offset: 1 })
+  }
+}
+
+function skipExtraChannelInfo(reader: BitReader): void {
+  // All default: an 8-bit alpha channel
+  if (reader.bool()) return
+
+  const type = reader.enum()
+  skipBitDepth(reader)
+  reader.u32(0, 3, 4, { bits: 3, offset: 1 })
+  const nameLength = reader.u32(0, { bits: 4, offset: 0 }, { bits: 5, offset: 16 }, { bits: 10, offset: 48 })
+  reader.bits(8 * nameLength)
+  if (type === EXTRA_CHANNEL_ALPHA) reader.bool()
+  if (type === EXTRA_CHANNEL_SPOT_COLOR) reader.bits(4 * 16)
+  if (type === EXTRA_CHANNEL_CFA) reader.u32(1, { bits: 2, offset: 0 }, { bits: 4, offset: 3 }, { bits: 8, offset: 19 })
+}
+
+function skipCustomXy(reader: BitReader): void {
+  reader.u32(...CUSTOM_XY)
+  reader.u32(...CUSTOM_XY)
+}
+
+function readColorEncoding(reader: BitReader): JxlColorEncoding {
+  // All default: sRGB
+  if (reader.bool()) {
+    return { colorSpace: 'rgb', iccProfile: false, whitePoint: 1, primaries: 1, transferFunction: 13 }
+  }
+
+  const iccProfile = reader.bool()
+  const colorSpace = COLOR_SPACES[reader.enum()] ?? 'unknown'
+  const encoding: JxlColorEncoding = { colorSpace, iccProfile }
+  if (iccProfile) {
+    return encoding
+  }
+
+  if (colorSpace !== 'xyb') {
+    encoding.whitePoint = reader.enum()
+    if (encoding.whitePoint === WHITE_POINT_CUSTOM) skipCustomXy(reader)
+  }
+  if (colorSpace !== 'xyb' && colorSpace !== 'grey') {
+    encoding.primaries = reader.enum()
+    if (encoding.primaries === PRIMARIES_CUSTOM) {
+      skipCustomXy(reader)
+      skipCustomXy(reader)
+      skipCustomXy(reader)
+    }
+  }
+  if (colorSpace !== 'xyb') {
+    if (reader.bool()) {
+      encoding.gamma = reader.bits(24) / GAMMA_SCALE
+    }
+    else {
+      encoding.transferFunction = reader.enum()
+    }
+  }
+  return encoding
+}
+
+/**
+ * Read the colour encoding from the image header of a JPEG XL file, bare codestream or container.
+ * Everything before it in the header (size, orientation, preview, animation, extra channels) is skipped.
+ */
+export function readJxlColorEncoding(data: Buffer): JxlColorEncoding {
+  const codestream = readCodestreamStart(data)
+  if (!startsWith(codestream, CODESTREAM_SIGNATURE)) {
+    throw new JxlFormatError('The JPEG XL codestream does not start with its signature')
+  }
+
+  const reader = createBitReader(codestream.subarray(CODESTREAM_SIGNATURE.length))
+  skipSizeHeader(reader)
+
+  // All default metadata: 8-bit sRGB without extra channels
+  if (reader.bool()) {
+    return { colorSpace: 'rgb', iccProfile: false, whitePoint: 1, primaries: 1, transferFunction: 13 }
+  }
+  if (reader.bool()) {
+    reader.bits(3) // Orientation
+    if (reader.bool()) skipSizeHeader(reader) // Intrinsic size
+    if (reader.bool()) skipPreviewHeader(reader)
+    if (reader.bool()) skipAnimationHeader(reader)
+  }
+  skipBitDepth(reader)
+  reader.bool() // 16-bit buffers are sufficient for modular decoding
+  const extraChannels = reader.u32(0, 1, { bits: 4, offset: 2 }, { bits: 12, offset: 1 })
+  for (let channel = 0; channel < extraChannels; channel++) {
+    skipExtraChannelInfo(reader)
+  }
+  reader.bool() // XYB encoded, the colour encoding still describes the original image
+  return readColorEncoding(reader)
+}
@@ -0,0 +1,99 @@
+import type { ConversionPreset, PresetId } from '~/types'
+
+const DEFAULT_PRESET_ID: PresetId = 'instagram'
+
+const MB = 1024 * 1024
+
+const PRESETS: Record<PresetId, ConversionPreset> = {
+  'instagram': {
+    id: 'instagram',
+    name: 'Instagram',
+    description: 'ISO 21496-1 tuned for Instagram: 4:2:0, longest edge 1080px',
+    metadata: DEFAULT_HDR_METADATA,
+    quality: 100,
+    subsampling: '420',
+    maxDimension: 1080,
+    maxFileSize: 8 * MB,
+  },
+  'threads': {
+    id: 'threads',
+    name: 'Threads',
+    description: 'Same gain map as Instagram, Threads keeps up to 1440px',
+    metadata: DEFAULT_HDR_METADATA,
+    quality: 100,
+    subsampling: '420',
+    maxDimension: 1440,
+    maxFileSize: 8 * MB,
+  },
+  'google-photos': {
+    id: 'google-photos',
+    name: 'Google Photos',
+    description: 'Ultra HDR as written by Pixel cameras, full resolution',
+    metadata: {
+      ...DEFAULT_HDR_METADATA,
+      maxContentBoost: 8,
+      hdrCapacityMax: 8,
+    },
+    quality: 95,
+    subsampling: '420',
+    maxDimension: null,
+    maxFileSize: 200 * MB,
+  },
+  'ultrahdr': {
+    id: 'ultrahdr',
+    name: 'Ultra HDR',
+    description: 'Plain Ultra HDR JPEG with full chroma and no size limits',
+    metadata: {
+      ...DEFAULT_HDR_METADATA,
+      maxContentBoost: 6,
+      hdrCapacityMax: 6,
+      offsetSdr: 0.015625,
+      offsetHdr: 0.015625,
+    },
+    quality: 95,
+    subsampling: '444',
+    maxDimension: null,
+    maxFileSize: null,
+  },
+}
+
+/**
+ * Raised when a request names a preset that does not exist
+ */
+export class UnknownPresetError extends ConversionRequestError {
+  override readonly code = 'UNKNOWN_PRESET' as const
+
+  constructor(presetId: string) {
+    super(`Unknown preset: ${presetId}. Available presets: ${Object.keys(PRESETS).join(', ')}`)
+    this.name = 'UnknownPresetError'
+  }
+}
+
+/**
+ * All presets, in display order
+ */
+export function listPresets(): ConversionPreset[] {
+  return Object.values(PRESETS)
+}
+
+/**
+ * Look up a preset by ID
+ */
+export function getPreset(id: string): ConversionPreset {
+  const preset = PRESETS[id as PresetId]
+  if (!preset) {
+    throw new UnknownPresetError(id)
+  }
+  return preset
+}
+
+/**
+ * Read the optional `preset` field of a conversion upload
+ */
+export function readPreset(formData: FormData): ConversionPreset {
+  const value = formData.get('preset')
+  if (value === null || value === '') {
+    return PRESETS[DEFAULT_PRESET_ID]
+  }
+  return getPreset(String(value))
+}
@@ -0,0 +1,245 @@
+import { spawn } from 'node:child_process'
+import { join, resolve } from 'node:path'
+import { createInterface } from 'node:readline'
+import type { Readable } from 'node:stream'
+
+export type ToolName = 'ultrahdr_app' | 'magick' | 'convert-script'
+
+// How long each tool may run before it is killed
+const TOOL_TIMEOUTS_MS: Record<ToolName, number> = {
+  'ultrahdr_app': 60_000,
+  'magick': 120_000,
+  'convert-script': 10 * 60_000,
+}
+
+// Output kept per stream unless a caller asks for more
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024
+
+// Grace period between SIGTERM and SIGKILL after a timeout
+const KILL_GRACE_MS = 2000
+
+export interface RunOptions {
+  label?: string // Name used in error messages, defaults to the command
+  cwd?: string
+  env?: NodeJS.ProcessEnv
+  timeoutMs?: number
+  maxOutputBytes?: number // Per stream, extra output is dropped and flagged as truncated
+  signal?: AbortSignal // Stops the command like a timeout does
+  onStdoutLine?: (line: string) => void
+  onStderrLine?: (line: string) => void
+}
+
+export interface CommandResult {
+  command: string
+  args: string[]
+  exitCode: number | null
+  signal: NodeJS.Signals | null
+  stdout: Buffer
+  stderr: Buffer
+  stdoutTruncated: boolean
+  stderrTruncated: boolean
+  timedOut: boolean
+  aborted: boolean
+  durationMs: number
+}
+
+/**
+ * Raised when a command cannot be started, times out or exits with a non-zero code
+ */
+export class ProcessError extends Error {
+  readonly result: CommandResult
+
+  constructor(message: string, result: CommandResult) {
+    super(message)
+    this.name = 'ProcessError'
+    this.result = result
+  }
+}
+
+/**
+ * Directory holding the conversion script and the locally built binaries
+ */
+export function getCmdDir(): string {
+  return join(resolve(process.cwd(), 'server'), 'cmd')
+}
+
+/**
+ * Collect a stream into a size-capped buffer
+ */
+function captureStream(stream: Readable, maxBytes: number): { read: () => { data: Buffer, truncated: boolean } } {
+  const chunks: Buffer[] = []
+  let size = 0
+  let truncated = false
+
+  stream.on('data', (chunk: Buffer) => {
+    const remaining = maxBytes - size
+    if (remaining <= 0) {
+      truncated = true
+      return
+    }
+    if (chunk.length > remaining) {
+      truncated = true
+      chunk = chunk.subarray(0, remaining)
+    }
+    chunks.push(chunk)
+    size += chunk.length
+  })
+
+  return {
+    read: () => ({ data: Buffer.concat(chunks), truncated }),
+  }
+}
+
+/**
+ * Describe why a command failed, using the last line it wrote to stderr
+ */
+function describeFailure(name: string, result: CommandResult, timeoutMs: number): string {
+  if (result.timedOut) {
+    return `${name} timed out after ${timeoutMs / 1000}s`
+  }
+  if (result.aborted) {
+    return `${name} was cancelled`
+  }
+
+  const lastLine = result.stderr.toString('utf-8').trim().split('\n').pop()
+  const reason = result.signal ? `was killed by ${result.signal}` : `exited with code ${result.exitCode}`
+  return lastLine ? `${name} ${reason}: ${lastLine}` : `${name} ${reason}`
+}
+
+/**
+ * Spawn a command with an argument array (no shell) and capture its output.
+ * Resolves when the command exits with code 0, otherwise rejects with a ProcessError.
+ */
+export function runCommand(command: string, args: string[], options: RunOptions = {}): Promise<CommandResult> {
+  const label = options.label ?? command
+  const timeoutMs = options.timeoutMs ?? 60_000
+  const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES
+  const startedAt = Date.now()
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env ?? process.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Own process group, so a timeout also stops the tools a script started
+      detached: process.platform !== 'win32',
+    })
+
+    const stdout = captureStream(child.stdout, maxOutputBytes)
+    const stderr = captureStream(child.stderr, maxOutputBytes)
+
+    if (options.onStdoutLine) {
+      createInterface({ input: child.stdout }).on('line', options.onStdoutLine)
+    }
+    if (options.onStderrLine) {
+      createInterface({ input: child.stderr }).on('line', options.onStderrLine)
+    }
+
+    let timedOut = false
+    let aborted = false
+    let killTimer: NodeJS.Timeout | undefined
+
+    const signalChild = (signal: NodeJS.Signals): void => {
+      try {
+        if (child.pid && process.platform !== 'win32') {
+          process.kill(-child.pid, signal)
+        }
+        else {
+          child.kill(signal)
+        }
+      }
+      catch {
+        // Already exited
+      }
+    }
+
+    const stopChild = (): void => {
+      signalChild('SIGTERM')
+      killTimer = setTimeout(() => signalChild('SIGKILL'), KILL_GRACE_MS)
+    }
+
+    const timeout = setTimeout(() => {
+      timedOut = true
+      stopChild()
+    }, timeoutMs)
+
+    const onAbort = (): void => {
+      aborted = true
+      clearTimeout(timeout)
+      stopChild()
+    }
+    if (options.signal?.aborted) {
+      onAbort()
+    }
+    else {
+      options.signal?.addEventListener('abort', onAbort, { once: true })
+    }
+
+    const buildResult = (exitCode: number | null, signal: NodeJS.Signals | null): CommandResult => {
+      const out = stdout.read()
+      const err = stderr.read()
+      return {
+        command,
+        args,
+        exitCode,
+        signal,
+        stdout: out.data,
+        stderr: err.data,
+        stdoutTruncated: out.truncated,
+        stderrTruncated: err.truncated,
+        timedOut,
+        aborted,
+        durationMs: Date.now() - startedAt,
+      }
+    }
+
+    child.on('error', (error) => {
+      clearTimeout(timeout)
+      clearTimeout(killTimer)
+      options.signal?.removeEventListener('abort', onAbort)
+      reject(new ProcessError(`Failed to start ${label}: ${error.message}`, buildResult(null, null)))
+    })
+
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timeout)
+      clearTimeout(killTimer)
+      options.signal?.removeEventListener('abort', onAbort)
+
+      const result = buildResult(exitCode, signal)
+      if (exitCode === 0 && !timedOut && !aborted) {
+        resolve(result)
+      }
+      else {
+        reject(new ProcessError(describeFailure(label, result, timeoutMs), result))
+      }
+    })
+  })
+}
+
+/**
+ * Run one of the pipeline tools from the command directory with its default timeout
+ */
+export function runTool(tool: ToolName, args: string[], options: RunOptions = {}): Promise<CommandResult> {
+  const cmdDir = getCmdDir()
+  const env = {
+    ...process.env,
+    PATH: `${cmdDir}:${process.env.PATH}`,
+    ...options.env,
+  }
+
+  // The binaries are built into the command directory, the script runs through bash
+  let command = join(cmdDir, tool)
+  let commandArgs = args
+  if (tool === 'convert-script') {
+    command = 'bash'
+    commandArgs = [join(cmdDir, 'convert-to-iso-hdr.sh'), ...args]
+  }
+
+  return runCommand(command, commandArgs, {
+    label: tool,
+    cwd: cmdDir,
+    timeoutMs: TOOL_TIMEOUTS_MS[tool],
+    ...options,
+    env,
+  })
+}
@@ -0,0 +1,138 @@
+import { stripVTControlCharacters } from 'node:util'
+import type { ConversionStage, JobProgressEvent, LogLevel } from '~/types'
+
+interface StageDefinition {
+  stage: ConversionStage
+  label: string
+  progress: number
+}
+
+interface StageMatcher extends StageDefinition {
+  pattern: RegExp
+}
+
+export interface ProgressReporter {
+  logs: string[]
+  readonly stage: ConversionStage
+  readonly progress: number
+  log: (message: string, level?: LogLevel) => void
+  scriptLine: (line: string) => void
+  setStage: (stage: ConversionStage) => void
+}
+
+const STAGES: Record<ConversionStage, StageDefinition> = {
+  queued: { stage: 'queued', label: 'Queued', progress: 0 },
+  prepare: { stage: 'prepare', label: 'Preparing input', progress: 5 },
+  intermediate: { stage: 'intermediate', label: 'Converting to intermediate HDR JPEG', progress: 10 },
+  synthesize: { stage: 'synthesize', label: 'Synthesizing gain map', progress: 22 },
+  decode: { stage: 'decode', label: 'Decoding HDR', progress: 25 },
+  sdr: { stage: 'sdr', label: 'Generating SDR', progress: 40 },
+  recompress: { stage: 'recompress', label: 'Recompressing SDR base', progress: 50 },
+  gainmap: { stage: 'gainmap', label: 'Extracting gain map', progress: 60 },
+  resize: { stage: 'resize', label: 'Resizing', progress: 72 },
+  encode: { stage: 'encode', label: 'API-4 re-encode', progress: 75 },
+  verify: { stage: 'verify', label: 'Verifying output', progress: 90 },
+  extract: { stage: 'extract', label: 'Reading results', progress: 95 },
+  complete: { stage: 'complete', label: 'Complete', progress: 100 },
+  failed: { stage: 'failed', label: 'Failed', progress: 0 },
+  cancelled: { stage: 'cancelled', label: 'Cancelled', progress: 0 },
+}
+
+// Script output lines that start (or finish) a pipeline stage
+const SCRIPT_STAGE_MATCHERS: StageMatcher[] = [
+  { ...STAGES.intermediate, pattern: /converting to intermediate HDR JPG/i },
+  { ...STAGES.intermediate, pattern: /converted to intermediate HDR JPG/i, progress: 20 },
+  { ...STAGES.synthesize, pattern: /Synthesizing gain map/i },
+  { ...STAGES.synthesize, pattern: /Synthesized gain map/i, progress: 30 },
+  { ...STAGES.decode, pattern: /Decoding HDR and extracting metadata/i },
+  { ...STAGES.decode, pattern: /Successfully decoded HDR image/i, progress: 35 },
+  { ...STAGES.sdr, pattern: /Generating SDR version/i },
+  { ...STAGES.recompress, pattern: /Compressing SDR with YCbCr/i },
+  { ...STAGES.recompress, pattern: /Created 4:\d:\d SDR base image/i, progress: 55 },
+  { ...STAGES.gainmap, pattern: /Extracting original gain map/i },
+  { ...STAGES.gainmap, pattern: /Created 4:\d:\d gain map/i, progress: 70 },
+  { ...STAGES.resize, pattern: /Resizing SDR base and gain map/i },
+  { ...STAGES.resize, pattern: /Resized to \d+x\d+/i, progress: 74 },
+  { ...STAGES.encode, pattern: /Re-encoding with API-4/i },
+  { ...STAGES.encode, pattern: /Successfully re-encoded/i, progress: 85 },
+  { ...STAGES.verify, pattern: /Verifying output/i },
+]
+
+/**
+ * Human-readable label for a stage
+ */
+export function getStageLabel(stage: ConversionStage): string {
+  return STAGES[stage].label
+}
+
+/**
+ * Parse a line printed by convert-to-iso-hdr.sh into a log level, message and optional stage
+ */
+export function parseScriptLine(rawLine: string): { level: LogLevel, message: string, match?: StageMatcher } {
+  const line = stripVTControlCharacters(rawLine).trim()
+
+  let level: LogLevel = 'info'
+  let message = line
+  const prefix = line.match(/^(Info|Success|Error):\s*(.*)$/)
+  if (prefix) {
+    level = prefix[1] === 'Error' ? 'error' : prefix[1] === 'Success' ? 'success' : 'info'
+    message = prefix[2] ?? ''
+  }
+
+  const match = SCRIPT_STAGE_MATCHERS.find(matcher => matcher.pattern.test(message))
+  return { level, message, match }
+}
+
+/**
+ * Create a reporter that collects logs and turns them into structured progress events
+ */
+export function createProgressReporter(onEvent: (event: JobProgressEvent) => void): ProgressReporter {
+  let current: StageDefinition = STAGES.queued
+  let progress = 0
+
+  const emit = (message: string, level: LogLevel): void => {
+    onEvent({
+      stage: current.stage,
+      stageLabel: current.label,
+      progress,
+      level,
+      message,
+      timestamp: Date.now(),
+    })
+  }
+
+  const advance = (definition: StageDefinition): void => {
+    current = definition
+    // Progress only moves forward, and stays where it was when a job fails or is cancelled
+    progress = definition.stage === 'failed' || definition.stage === 'cancelled' ? progress : Math.max(progress, definition.progress)
+  }
+
+  const reporter: ProgressReporter = {
+    logs: [],
+    get stage() {
+      return current.stage
+    },
+    get progress() {
+      return progress
+    },
+    log(message, level = 'info') {
+      reporter.logs.push(message)
+      emit(message, level)
+    },
+    scriptLine(rawLine) {
+      const { level, message, match } = parseScriptLine(rawLine)
+      if (!message) {
+        return
+      }
+      if (match) {
+        advance(match)
+      }
+      reporter.log(message, level)
+    },
+    setStage(stage) {
+      advance(STAGES[stage])
+    },
+  }
+
+  return reporter
+}
@@ -0,0 +1,89 @@
+import type { H3Event } from 'h3'
+
+interface TokenBucket {
+  tokens: number
+  capacity: number // Also the refill rate per minute
+  updatedAt: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfter: number // Seconds until the next token, 0 when allowed
+}
+
+// Buckets are dropped once this many exist and they have refilled, so idle clients do not pile up
+const MAX_BUCKETS = 10_000
+
+// Suggested wait before retrying when a key is at its job limit
+const JOB_LIMIT_RETRY_AFTER_S = 5
+
+const buckets = new Map<string, TokenBucket>()
+
+/**
+ * Remove buckets that are full again; a full bucket behaves exactly like a new one
+ */
+function pruneBuckets(now: number): void {
+  for (const [id, bucket] of buckets) {
+    if (bucket.tokens + ((now - bucket.updatedAt) / 60_000) * bucket.capacity >= bucket.capacity) {
+      buckets.delete(id)
+    }
+  }
+}
+
+/**
+ * Take one token from a bucket holding up to `perMinute` tokens and refilling at `perMinute` per minute
+ */
+export function takeToken(bucketId: string, perMinute: number): RateLimitResult {
+  const now = Date.now()
+  const capacity = Math.max(1, perMinute)
+  if (buckets.size >= MAX_BUCKETS) {
+    pruneBuckets(now)
+  }
+
+  const bucket = buckets.get(bucketId) ?? { tokens: capacity, capacity, updatedAt: now }
+  // A changed limit applies from the next request on
+  bucket.capacity = capacity
+  bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 60_000) * capacity)
+  bucket.updatedAt = now
+  buckets.set(bucketId, bucket)
+
+  if (bucket.tokens < 1) {
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfter: Math.ceil(((1 - bucket.tokens) / capacity) * 60),
+    }
+  }
+
+  bucket.tokens -= 1
+  return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfter: 0 }
+}
+
+/**
+ * Answer with 429 and a `Retry-After` header
+ */
+export function throwTooManyRequests(event: H3Event, retryAfter: number, message: string, code: 'RATE_LIMITED' | 'JOB_LIMIT'): never {
+  setResponseHeader(event, 'Retry-After', Math.max(1, retryAfter))
+  throw createError({
+    statusCode: 429,
+    statusMessage: 'Too Many Requests',
+    message,
+    data: { code, retryAfter: Math.max(1, retryAfter) },
+  })
+}
+
+/**
+ * Reject a new conversion when the request's API key already has its maximum number of jobs queued or running.
+ * Call it right before creating the job, so the count cannot change in between.
+ */
+export function checkJobLimit(event: H3Event): void {
+  const apiKey = event.context.apiKey
+  if (!apiKey) return
+
+  const { apiKeyMaxConcurrentJobs } = useRuntimeConfig()
+  const limit = apiKey.maxConcurrentJobs ?? Math.max(1, Number(apiKeyMaxConcurrentJobs) || 2)
+  if (countActiveJobs(apiKey.id) >= limit) {
+    throwTooManyRequests(event, JOB_LIMIT_RETRY_AFTER_S, `This API key already has ${limit} conversion(s) queued or running`, 'JOB_LIMIT')
+  }
+}
@@ -0,0 +1,35 @@
+import type { ResultFile } from '~/types'
+
+// Files a finished job exposes under /api/results, with their content type
+const RESULT_FILES = {
+  'output.jpg': 'image/jpeg',
+  'sdr.jpg': 'image/jpeg',
+  'gainmap.jpg': 'image/jpeg',
+  'heatmap.jpg': 'image/jpeg',
+} as const
+
+export type ResultFileName = keyof typeof RESULT_FILES
+
+/**
+ * Whether a requested name is one of the downloadable result files
+ */
+export function isResultFileName(name: string): name is ResultFileName {
+  return Object.hasOwn(RESULT_FILES, name)
+}
+
+/**
+ * Content type sent with a result file
+ */
+export function getResultContentType(name: ResultFileName): string {
+  return RESULT_FILES[name]
+}
+
+/**
+ * Download link and exact size of a file stored in a job's workspace
+ */
+export function toResultFile(jobId: string, name: ResultFileName, size: number): ResultFile {
+  return {
+    url: `/api/results/${jobId}/${name}`,
+    size,
+  }
+}
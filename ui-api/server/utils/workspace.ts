@@ -0,0 +1,86 @@
+import { mkdir, mkdtemp, readdir, rm, stat } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+
+export interface Workspace {
+  dir: string
+  path: (name: string) => string
+  cleanup: () => Promise<void>
+  release: () => void // Keep the files but let the sweeper expire them
+}
+
+// Entries in the workspace root that are never swept
+const KEEP_ENTRIES = new Set(['.gitignore'])
+
+// Workspaces still in use by a running job or request
+const activeWorkspaces = new Set<string>()
+
+/**
+ * Directory that holds every workspace
+ */
+export function getWorkspaceRoot(): string {
+  return join(resolve(process.cwd(), 'server'), 'converted')
+}
+
+/**
+ * Create a uniquely named directory for one job or request
+ */
+export async function createWorkspace(prefix: string): Promise<Workspace> {
+  const root = getWorkspaceRoot()
+  await mkdir(root, { recursive: true })
+
+  const dir = await mkdtemp(join(root, `${prefix}-`))
+  activeWorkspaces.add(dir)
+
+  return {
+    dir,
+    path: name => join(dir, name),
+    cleanup: async () => {
+      try {
+        await rm(dir, { recursive: true, force: true })
+      }
+      finally {
+        activeWorkspaces.delete(dir)
+      }
+    },
+    release: () => {
+      activeWorkspaces.delete(dir)
+    },
+  }
+}
+
+/**
+ * Delete workspaces and stray files older than the TTL. Returns the paths removed.
+ */
+export async function sweepWorkspaces(ttlMs: number): Promise<string[]> {
+  const root = getWorkspaceRoot()
+  const cutoff = Date.now() - ttlMs
+  const removed: string[] = []
+
+  let entries: string[]
+  try {
+    entries = await readdir(root)
+  }
+  catch {
+    return removed
+  }
+
+  for (const entry of entries) {
+    const path = join(root, entry)
+    if (KEEP_ENTRIES.has(entry) || activeWorkspaces.has(path)) {
+      continue
+    }
+
+    try {
+      const { mtimeMs } = await stat(path)
+      if (mtimeMs < cutoff) {
+        await rm(path, { recursive: true, force: true })
+        removed.push(path)
+      }
+    }
+    catch (error: any) {
+      console.warn(`Workspace sweep: could not remove ${path}: ${error.message}`)
+    }
+  }
+
+  return removed
+}
@@ -10,15 +10,21 @@ export const useFilesStore = defineStore('files', {
   getters: {
     pendingFiles: (state) => state.files.filter(f => f.status === 'pending'),
     readyFiles: (state) => state.files.filter(f => f.status === 'ready'),
+    queuedFiles: (state) => state.files.filter(f => f.status === 'queued'),
     processingFiles: (state) => state.files.filter(f => f.status === 'processing'),
     completedFiles: (state) => state.files.filter(f => f.status === 'completed'),
     errorFiles: (state) => state.files.filter(f => f.status === 'error'),
+    cancelledFiles: (state) => state.files.filter(f => f.status === 'cancelled'),
+    // Failed or cancelled files that were loaded, so they can be converted again
+    retryableFiles: (state) => state.files.filter(f => (f.status === 'error' || f.status === 'cancelled') && f.data),
 
     pendingCount: (state) => state.files.filter(f => f.status === 'pending').length,
     readyCount: (state) => state.files.filter(f => f.status === 'ready').length,
+    queuedCount: (state) => state.files.filter(f => f.status === 'queued').length,
     processingCount: (state) => state.files.filter(f => f.status === 'processing').length,
     completedCount: (state) => state.files.filter(f => f.status === 'completed').length,
     errorCount: (state) => state.files.filter(f => f.status === 'error').length,
+    cancelledCount: (state) => state.files.filter(f => f.status === 'cancelled').length,
   },
 
   actions: {
@@ -0,0 +1,95 @@
+import { defineStore } from 'pinia'
+import type { HistoryEntry, HistoryStatus, PresetId, ProcessingFile } from '~/types'
+
+export type HistoryStatusFilter = HistoryStatus | 'all'
+export type HistoryDateFilter = 'all' | 'today' | 'week' | 'month'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Earliest finish time a date filter lets through
+ */
+function getDateCutoff(filter: HistoryDateFilter): number {
+  if (filter === 'all') return 0
+  if (filter === 'today') {
+    const startOfDay = new Date()
+    startOfDay.setHours(0, 0, 0, 0)
+    return startOfDay.getTime()
+  }
+  return Date.now() - (filter === 'week' ? 7 : 30) * DAY_MS
+}
+
+export const useHistoryStore = defineStore('history', {
+  state: () => ({
+    entries: [] as HistoryEntry[], // Newest first
+    thumbnails: {} as Record<string, string>, // Blob URLs by entry ID
+    loaded: false,
+    search: '',
+    statusFilter: 'all' as HistoryStatusFilter,
+    dateFilter: 'all' as HistoryDateFilter,
+  }),
+
+  getters: {
+    filteredEntries: (state): HistoryEntry[] => {
+      const cutoff = getDateCutoff(state.dateFilter)
+      const search = state.search.trim().toLowerCase()
+      return state.entries.filter(entry =>
+        (state.statusFilter === 'all' || entry.status === state.statusFilter)
+        && entry.finishedAt >= cutoff
+        && (!search || entry.fileName.toLowerCase().includes(search)),
+      )
+    },
+
+    completedCount: (state) => state.entries.filter(e => e.status === 'completed').length,
+  },
+
+  actions: {
+    async load() {
+      if (this.loaded) return
+
+      const entries = await usePersistence().getHistoryEntries()
+      entries.forEach(entry => this.addThumbnail(entry))
+      this.entries = entries
+      this.loaded = true
+    },
+
+    addThumbnail(entry: HistoryEntry) {
+      if (entry.thumbnail && !this.thumbnails[entry.id]) {
+        this.thumbnails[entry.id] = URL.createObjectURL(entry.thumbnail)
+      }
+    },
+
+    // Save a finished conversion; history is best effort and never fails the conversion
+    async record(file: ProcessingFile, preset: PresetId) {
+      try {
+        const entry = await usePersistence().recordHistory(file, preset)
+        if (entry && this.loaded) {
+          this.addThumbnail(entry)
+          this.entries.unshift(entry)
+        }
+      }
+      catch (error: any) {
+        useLogsStore().add(`Could not add ${file.name} to the history: ${error.message}`, 'warning')
+      }
+    },
+
+    async remove(ids: string[]) {
+      await usePersistence().deleteHistoryEntries(ids)
+      for (const id of ids) {
+        if (this.thumbnails[id]) {
+          URL.revokeObjectURL(this.thumbnails[id])
+          delete this.thumbnails[id]
+        }
+      }
+      this.entries = this.entries.filter(entry => !ids.includes(entry.id))
+    },
+
+    // Forget the loaded entries, e.g. after the stored history was cleared
+    reset() {
+      Object.values(this.thumbnails).forEach(url => URL.revokeObjectURL(url))
+      this.entries = []
+      this.thumbnails = {}
+      this.loaded = false
+    },
+  },
+})
@@ -0,0 +1,173 @@
+import { defineStore } from 'pinia'
+import type { ColorOverrides, ColorSettingField, ConversionPreset, EncodingOptions, HdrMetadata, HdrMetadataChannelField, HdrMetadataConfig, HdrMetadataField, HdrMetadataRange, PresetId } from '~/types'
+
+// Conversions the client runs at the same time; the server queues anything above its own limit
+export const MAX_CONCURRENCY = 6
+
+// localStorage entry holding the API key, kept per browser rather than with the session in IndexedDB
+const API_KEY_STORAGE_KEY = 'hdr-converter-api-key'
+
+export const useSettingsStore = defineStore('settings', {
+  state: () => ({
+    presets: [] as ConversionPreset[],
+    batchPresetId: 'instagram' as PresetId,
+    concurrency: 2,
+    customMetadataEnabled: false,
+    metadata: null as HdrMetadata | null,
+    metadataDefaults: null as HdrMetadata | null,
+    metadataRanges: null as Record<HdrMetadataField, HdrMetadataRange> | null,
+    customEncodingEnabled: false,
+    encoding: null as EncodingOptions | null,
+    colorOverrides: {} as ColorOverrides,
+    apiKey: '', // Sent with every API request when the server uses API keys
+  }),
+
+  getters: {
+    batchPreset: (state): ConversionPreset | undefined =>
+      state.presets.find(p => p.id === state.batchPresetId),
+
+    getPreset: state => (id: PresetId): ConversionPreset | undefined =>
+      state.presets.find(p => p.id === id),
+
+    // Metadata override sent with conversions, if enabled
+    metadataOverride: (state): HdrMetadata | undefined =>
+      state.customMetadataEnabled && state.metadata ? state.metadata : undefined,
+
+    // Encoding settings sent with conversions, if enabled
+    encodingOverride: (state): EncodingOptions | undefined =>
+      state.customEncodingEnabled && state.encoding ? state.encoding : undefined,
+
+    // Colour overrides sent with conversions, unset fields are detected by the server
+    hasColorOverrides: (state): boolean =>
+      Object.values(state.colorOverrides).some(Boolean),
+
+    isMetadataModified(): boolean {
+      const defaults = this.batchPreset?.metadata ?? this.metadataDefaults
+      if (!this.metadata || !defaults) return false
+      return (Object.keys(defaults) as HdrMetadataField[])
+        .some(field => JSON.stringify(this.metadata![field]) !== JSON.stringify(defaults[field]))
+    },
+  },
+
+  actions: {
+    async loadPresets() {
+      if (this.presets.length > 0) return
+
+      this.presets = await $fetch<ConversionPreset[]>('/api/presets')
+      if (!this.encoding) {
+        this.resetEncoding()
+      }
+    },
+
+    loadApiKey() {
+      this.apiKey = localStorage.getItem(API_KEY_STORAGE_KEY) ?? ''
+    },
+
+    setApiKey(key: string) {
+      this.apiKey = key.trim()
+      if (this.apiKey) {
+        localStorage.setItem(API_KEY_STORAGE_KEY, this.apiKey)
+      }
+      else {
+        localStorage.removeItem(API_KEY_STORAGE_KEY)
+      }
+    },
+
+    setConcurrency(value: number) {
+      this.concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(value)))
+    },
+
+    setBatchPreset(id: PresetId) {
+      this.batchPresetId = id
+      // Keep the metadata editor in sync with the preset until the user customizes it
+      if (!this.customMetadataEnabled) {
+        this.resetMetadata()
+      }
+      if (!this.customEncodingEnabled) {
+        this.resetEncoding()
+      }
+    },
+
+    async loadMetadataDefaults() {
+      if (this.metadataDefaults) return
+
+      const config = await $fetch<HdrMetadataConfig>('/api/metadata/defaults')
+      this.metadataDefaults = config.defaults
+      this.metadataRanges = config.ranges
+      if (!this.metadata) {
+        this.metadata = { ...(this.batchPreset?.metadata ?? config.defaults) }
+      }
+    },
+
+    setCustomMetadataEnabled(value: boolean) {
+      this.customMetadataEnabled = value
+    },
+
+    setMetadataField<F extends HdrMetadataField>(field: F, value: HdrMetadata[F]) {
+      if (this.metadata) {
+        this.metadata[field] = value
+      }
+    },
+
+    setMetadataChannel(field: HdrMetadataChannelField, channel: number, value: number) {
+      if (!this.metadata) return
+
+      const current = this.metadata[field]
+      const values: [number, number, number] = Array.isArray(current) ? [...current] : [current, current, current]
+      values[channel] = value
+      this.metadata[field] = values
+    },
+
+    // Switch a field between one value for all channels and separate r, g, b values
+    setMetadataPerChannel(field: HdrMetadataChannelField, perChannel: boolean) {
+      if (!this.metadata) return
+
+      const current = this.metadata[field]
+      if (perChannel && !Array.isArray(current)) {
+        this.metadata[field] = [current, current, current]
+      }
+      else if (!perChannel && Array.isArray(current)) {
+        this.metadata[field] = current.reduce((a, b) => a + b) / current.length
+      }
+    },
+
+    setCustomEncodingEnabled(value: boolean) {
+      this.customEncodingEnabled = value
+    },
+
+    setEncodingField<F extends keyof EncodingOptions>(field: F, value: EncodingOptions[F]) {
+      if (this.encoding) {
+        this.encoding[field] = value
+      }
+    },
+
+    // Encoding the server uses for the batch preset when nothing is overridden
+    resetEncoding() {
+      const preset = this.batchPreset
+      if (preset) {
+        this.encoding = {
+          baseQuality: preset.quality,
+          gainMapQuality: preset.quality,
+          gainMapScale: 1,
+          subsampling: preset.subsampling,
+        }
+      }
+    },
+
+    setColorOverride<F extends ColorSettingField>(field: F, value: ColorOverrides[F]) {
+      if (value) {
+        this.colorOverrides[field] = value
+      }
+      else {
+        delete this.colorOverrides[field]
+      }
+    },
+
+    resetMetadata() {
+      const defaults = this.batchPreset?.metadata ?? this.metadataDefaults
+      if (defaults) {
+        this.metadata = { ...defaults }
+      }
+    },
+  },
+})
@@ -0,0 +1,148 @@
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { describe, expect, it, vi } from 'vitest'
+import { parseIsoGainMap, parseXmpGainMap } from '../server/utils/gain-map-metadata'
+import { JpegFormatError, readGainMapLayout, sliceRange } from '../server/utils/jpeg-container'
+
+// Nitro auto-imports the error class in the server, the parser expects it as a global
+vi.stubGlobal('JpegFormatError', JpegFormatError)
+
+// Sample files shared with the conversion script, at the repository root
+function readFixture(name: string): Buffer {
+  return readFileSync(fileURLToPath(new URL(`../../test/${name}`, import.meta.url)))
+}
+
+/**
+ * ISO 21496-1 and XMP blocks of a fixture's gain map image
+ */
+function readGainMapBlocks(name: string): { iso: Buffer, xmp: string } {
+  const buffer = readFixture(name)
+  const { gainMap } = readGainMapLayout(buffer)
+  return {
+    iso: sliceRange(buffer, gainMap!.iso!),
+    xmp: sliceRange(buffer, gainMap!.xmp!).toString('utf-8'),
+  }
+}
+
+/**
+ * Big-endian ISO 21496-1 payload from a flags byte and 32-bit fields
+ */
+function createIsoPayload(flags: number, fields: number[]): Buffer {
+  const payload = Buffer.alloc(5 + fields.length * 4)
+  payload.writeUInt8(flags, 4)
+  fields.forEach((field, index) => payload.writeInt32BE(field, 5 + index * 4))
+  return payload
+}
+
+describe('parseIsoGainMap', () => {
+  it('reads single-channel fractions with their own denominators', () => {
+    const { metadata } = parseIsoGainMap(readGainMapBlocks('avif-test_iso.jpg').iso)
+
+    expect(metadata).toMatchObject({
+      version: '0',
+      baseRenditionIsHdr: false,
+      gainMapMin: [0],
+      gainMapMax: [4],
+      gamma: [1],
+      hdrCapacityMin: 0,
+      useBaseColorSpace: true,
+      defaulted: [],
+    })
+    expect(metadata!.hdrCapacityMax).toBeCloseTo(4.0502, 4)
+    expect(metadata!.offsetSdr[0]).toBeCloseTo(1e-7, 10)
+    expect(metadata!.offsetHdr[0]).toBeCloseTo(1e-7, 10)
+  })
+
+  it('reads three channels with negative minimums', () => {
+    const { metadata } = parseIsoGainMap(readGainMapBlocks('not-valid-jpg-hdr-test.jpg').iso)
+
+    expect(metadata!.gainMapMin).toEqual([-1.1983642578125, -1.197509765625, -1.197235107421875])
+    expect(metadata!.gainMapMax).toEqual([3.92498779296875, 3.7559814453125, 3.7386474609375])
+    expect(metadata!.gamma.map(value => value.toFixed(6))).toEqual(['0.454442', '0.425167', '0.412225'])
+    expect(metadata!.offsetSdr).toEqual([0.015625, 0.015625, 0.015625])
+    expect(metadata!.hdrCapacityMax).toBeCloseTo(3.999084, 6)
+  })
+
+  it('returns no values for the version-only block of the primary image', () => {
+    expect(parseIsoGainMap(Buffer.alloc(4))).toEqual({ minimumVersion: 0, writerVersion: 0, metadata: null })
+  })
+
+  it('applies a common denominator and swaps the renditions of an HDR base', () => {
+    // Common denominator, backward direction: base headroom 3, alternate 0, then min, max, gamma and offsets
+    const payload = createIsoPayload(0x0C, [4, 12, 0, -2, 16, 4, 1, 2])
+    const { metadata } = parseIsoGainMap(payload)
+
+    expect(metadata).toMatchObject({
+      baseRenditionIsHdr: true,
+      gainMapMin: [-0.5],
+      gainMapMax: [4],
+      gamma: [1],
+      offsetSdr: [0.5],
+      offsetHdr: [0.25],
+      hdrCapacityMin: 0,
+      hdrCapacityMax: 3,
+      useBaseColorSpace: false,
+    })
+  })
+
+  it('rejects zero denominators and truncated blocks', () => {
+    expect(() => parseIsoGainMap(createIsoPayload(0x08, [0, 1, 1, 0, 4, 1, 0, 0]))).toThrow('zero denominator')
+    expect(() => parseIsoGainMap(readGainMapBlocks('avif-test_iso.jpg').iso.subarray(0, 30))).toThrow(JpegFormatError)
+  })
+})
+
+describe('parseXmpGainMap', () => {
+  it('reads hdrgm attributes', () => {
+    expect(parseXmpGainMap(readGainMapBlocks('avif-test_iso.jpg').xmp)).toEqual({
+      version: '1.0',
+      metadata: {
+        version: '1.0',
+        baseRenditionIsHdr: false,
+        gainMapMin: [0],
+        gainMapMax: [4],
+        gamma: [1],
+        offsetSdr: [1e-7],
+        offsetHdr: [1e-7],
+        hdrCapacityMin: 0,
+        hdrCapacityMax: 4.0502,
+        defaulted: [],
+      },
+    })
+  })
+
+  it('reads per-channel values from rdf:Seq elements next to single attributes', () => {
+    const { metadata } = parseXmpGainMap(readGainMapBlocks('not-valid-jpg-hdr-test.jpg').xmp)
+
+    expect(metadata).toMatchObject({
+      gainMapMin: [-1.198364, -1.19751, -1.197235],
+      gainMapMax: [3.924988, 3.755981, 3.738647],
+      gamma: [0.454442, 0.425167, 0.412225],
+      offsetSdr: [0.015625],
+      offsetHdr: [0.015625],
+      hdrCapacityMax: 3.999084,
+      defaulted: [],
+    })
+  })
+
+  it('fills absent optional fields with the spec defaults', () => {
+    const { metadata } = parseXmpGainMap('<rdf:Description hdrgm:Version="1.0" hdrgm:GainMapMax="2" hdrgm:HDRCapacityMax="2"/>')
+
+    expect(metadata).toMatchObject({
+      gainMapMin: [0],
+      gamma: [1],
+      offsetSdr: [1 / 64],
+      offsetHdr: [1 / 64],
+      hdrCapacityMin: 0,
+      baseRenditionIsHdr: false,
+      defaulted: ['gainMapMin', 'gamma', 'offsetSdr', 'offsetHdr', 'hdrCapacityMin', 'baseRenditionIsHdr'],
+    })
+  })
+
+  it('keeps only the version without the required fields', () => {
+    expect(parseXmpGainMap('<rdf:Description hdrgm:Version="1.0"/>')).toEqual({ version: '1.0', metadata: null })
+  })
+
+  it('rejects values that are not numbers', () => {
+    expect(() => parseXmpGainMap('<rdf:Description hdrgm:GainMapMax="high" hdrgm:HDRCapacityMax="2"/>')).toThrow(JpegFormatError)
+  })
+})
@@ -0,0 +1,64 @@
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { describe, expect, it } from 'vitest'
+import { UnsupportedFormatError, detectImageFormat, detectInputType } from '../server/utils/image-format'
+
+// Sample files shared with the conversion script, at the repository root
+function readFixture(name: string): Buffer {
+  return readFileSync(fileURLToPath(new URL(`../../test/${name}`, import.meta.url)))
+}
+
+/**
+ * ISOBMFF `ftyp` box with a major brand and compatible brands
+ */
+function createFtyp(majorBrand: string, compatibleBrands: string[]): Buffer {
+  const brands = [majorBrand, '\0\0\0\0', ...compatibleBrands].join('')
+  const box = Buffer.alloc(8 + brands.length)
+  box.writeUInt32BE(box.length, 0)
+  box.write(`ftyp${brands}`, 4, 'latin1')
+  return Buffer.concat([box, Buffer.alloc(16)])
+}
+
+const PNG_HEADER = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 0x00, 0x00, 0x00, 0x0D, 0x49, 0x48, 0x44, 0x52])
+
+describe('detectImageFormat', () => {
+  it('identifies the sample AVIF, JPEG XL and JPEG files', () => {
+    expect(detectImageFormat(readFixture('avif-test.avif'))).toBe('avif')
+    expect(detectImageFormat(readFixture('jxl-test.jxl'))).toBe('jxl')
+    expect(detectImageFormat(readFixture('reference.jpg'))).toBe('jpeg')
+    expect(detectImageFormat(readFixture('avif-test_iso.jpg'))).toBe('jpeg')
+  })
+
+  it('recognizes a bare JPEG XL codestream', () => {
+    expect(detectImageFormat(Buffer.from([0xFF, 0x0A, 0xFA, 0x12]))).toBe('jxl')
+  })
+
+  it('tells HEIC from AVIF by their ftyp brands', () => {
+    expect(detectImageFormat(createFtyp('heic', ['mif1', 'heic']))).toBe('heic')
+    expect(detectImageFormat(createFtyp('mif1', ['mif1', 'heic']))).toBe('heic')
+    expect(detectImageFormat(createFtyp('mif1', ['avif', 'mif1', 'miaf']))).toBe('avif')
+    expect(detectImageFormat(createFtyp('isom', ['mp41']))).toBe('unknown')
+  })
+
+  it('recognizes PNG and falls back to unknown', () => {
+    expect(detectImageFormat(PNG_HEADER)).toBe('png')
+    expect(detectImageFormat(Buffer.from('not an image'))).toBe('unknown')
+    expect(detectImageFormat(Buffer.alloc(0))).toBe('unknown')
+  })
+})
+
+describe('detectInputType', () => {
+  it('accepts the formats the conversion script reads', () => {
+    expect(detectInputType(readFixture('avif-test.avif'), 'photo.jpg')).toBe('avif')
+    expect(detectInputType(readFixture('jxl-test.jxl'), 'photo.jxl')).toBe('jxl')
+  })
+
+  it('rejects HEIC and PNG uploads with the detected format', () => {
+    expect(() => detectInputType(createFtyp('heic', ['mif1', 'heic']), 'photo.avif')).toThrow(expect.objectContaining({
+      code: 'UNSUPPORTED_FORMAT',
+      detectedFormat: 'heic',
+      message: expect.stringContaining('photo.avif is a HEIC/HEIF image'),
+    }))
+    expect(() => detectInputType(PNG_HEADER, 'photo.png')).toThrow(UnsupportedFormatError)
+  })
+})
@@ -0,0 +1,99 @@
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { describe, expect, it } from 'vitest'
+import { findSegment, readGainMapLayout, readJpegFrame, readJpegSegments, readMpfEntries, sliceRange } from '../server/utils/jpeg-container'
+import type { JpegSegment } from '../server/utils/jpeg-container'
+
+// Sample files shared with the conversion script, at the repository root
+function readFixture(name: string): Buffer {
+  return readFileSync(fileURLToPath(new URL(`../../test/${name}`, import.meta.url)))
+}
+
+/**
+ * APP2 MPF segment whose MP Entry tag declares `byteCount` bytes of entries
+ */
+function createMpfSegment(byteCount: number): JpegSegment {
+  const entries = Buffer.alloc(byteCount)
+  entries.writeUInt32BE(0x030000, 0) // Baseline MP primary image
+  entries.writeUInt32BE(1000, 4)
+  const tiff = Buffer.concat([
+    Buffer.from([0x4D, 0x4D, 0x00, 0x2A, 0x00, 0x00, 0x00, 0x08]), // Big endian header, IFD at 8
+    Buffer.from([0x00, 0x01]), // One IFD entry
+    Buffer.from([0xB0, 0x02, 0x00, 0x07]), // MP Entry, UNDEFINED
+    Buffer.from([0x00, 0x00, 0x00, byteCount, 0x00, 0x00, 0x00, 26]),
+    Buffer.alloc(4), // Next IFD
+    entries,
+  ])
+  const data = Buffer.concat([Buffer.from('MPF\0', 'latin1'), tiff])
+  return { marker: 0xE2, offset: 0, length: data.length + 4, data }
+}
+
+describe('readGainMapLayout', () => {
+  it('locates the primary image and gain map of a converted Ultra HDR JPEG', () => {
+    const buffer = readFixture('avif-test_iso.jpg')
+    const { primary, gainMap } = readGainMapLayout(buffer)
+
+    expect(primary.range).toEqual({ offset: 0, length: 331765 })
+    expect(primary.frame).toMatchObject({ width: 1080, height: 718, subsampling: '420' })
+    expect(gainMap).not.toBeNull()
+    expect(gainMap!.range).toEqual({ offset: 331765, length: buffer.length - 331765 })
+    expect(gainMap!.xmp).toEqual({ offset: 331800, length: 519 })
+    expect(gainMap!.iso).toEqual({ offset: 332351, length: 61 })
+    expect(sliceRange(buffer, gainMap!.xmp!).toString('latin1')).toContain('hdrgm:Version')
+  })
+
+  it('finds an XMP-only gain map without an ISO 21496-1 block', () => {
+    const buffer = readFixture('reference.jpg')
+    const { primary, gainMap } = readGainMapLayout(buffer)
+
+    expect(primary.range).toEqual({ offset: 0, length: 125737 })
+    expect(primary.frame).toMatchObject({ width: 1080, height: 803, subsampling: '420' })
+    expect(gainMap!.range).toEqual({ offset: 125737, length: 132503 })
+    expect(gainMap!.xmp).toEqual({ offset: 125790, length: 492 })
+    expect(gainMap!.iso).toBeUndefined()
+  })
+
+  it('reports the 4:4:4 gain map of the sample rejected by Instagram', () => {
+    const { primary, gainMap } = readGainMapLayout(readFixture('not-valid-jpg-hdr-test.jpg'))
+
+    expect(primary.range).toEqual({ offset: 0, length: 583326 })
+    expect(primary.frame).toMatchObject({ width: 1080, height: 1080, subsampling: '444' })
+    expect(gainMap!.range.offset).toBe(583326)
+    expect(gainMap!.frame?.subsampling).toBe('444')
+  })
+
+  it('reports no gain map for a JPEG without an MPF index', () => {
+    const buffer = readFixture('avif-test_iso.jpg')
+    // The gain map codestream on its own is a plain JPEG
+    const plain = buffer.subarray(331765)
+    const { primary, gainMap } = readGainMapLayout(plain)
+
+    expect(findSegment(readJpegSegments(plain), 'mpf')).toBeUndefined()
+    expect(primary.range).toEqual({ offset: 0, length: plain.length })
+    expect(gainMap).toBeNull()
+  })
+})
+
+describe('readJpegFrame', () => {
+  it('reads dimensions, precision and subsampling', () => {
+    const frame = readJpegFrame(readJpegSegments(readFixture('reference.jpg')))
+    expect(frame).toEqual({ width: 1080, height: 803, bitDepth: 8, components: 3, subsampling: '420' })
+  })
+})
+
+describe('readMpfEntries', () => {
+  it('converts image offsets to absolute file offsets', () => {
+    const buffer = readFixture('avif-test_iso.jpg')
+    const entries = readMpfEntries(findSegment(readJpegSegments(buffer), 'mpf')!)
+
+    expect(entries).toEqual([
+      { index: 0, type: 'Baseline MP primary image', offset: 0, size: 331765 },
+      { index: 1, type: 'Undefined', offset: 331765, size: buffer.length - 331765 },
+    ])
+  })
+
+  it('ignores a truncated trailing entry', () => {
+    const entries = readMpfEntries(createMpfSegment(20))
+    expect(entries).toEqual([{ index: 0, type: 'Baseline MP primary image', offset: 0, size: 1000 }])
+  })
+})
@@ -0,0 +1,97 @@
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { describe, expect, it } from 'vitest'
+import { JxlFormatError, readJxlColorEncoding } from '../server/utils/jxl-codestream'
+
+// Sample files shared with the conversion script, at the repository root
+function readFixture(name: string): Buffer {
+  return readFileSync(fileURLToPath(new URL(`../../test/${name}`, import.meta.url)))
+}
+
+/**
+ * Bare codestream from fields written least significant bit first, as [value, bit count] pairs
+ */
+function createCodestream(fields: [number, number][]): Buffer {
+  const bits: number[] = []
+  for (const [value, count] of fields) {
+    for (let bit = 0; bit < count; bit++) bits.push((value >> bit) & 1)
+  }
+  const bytes = Buffer.alloc(Math.ceil(bits.length / 8) + 4)
+  bits.forEach((bit, index) => {
+    bytes[index >> 3]! |= bit << (index & 7)
+  })
+  return Buffer.concat([Buffer.from([0xFF, 0x0A]), bytes])
+}
+
+// Size header of a small 8×8 image
+const SMALL_SIZE: [number, number][] = [[1, 1], [0, 5], [1, 3]]
+
+describe('readJxlColorEncoding', () => {
+  it('reads the colour encoding of a container with partial codestreams', () => {
+    expect(readJxlColorEncoding(readFixture('jxl-test.jxl'))).toEqual({
+      colorSpace: 'rgb',
+      iccProfile: false,
+      whitePoint: 1,
+      primaries: 1,
+      transferFunction: 16,
+    })
+  })
+
+  it('skips preview, animation and named extra channels before the colour encoding', () => {
+    const codestream = createCodestream([
+      ...SMALL_SIZE,
+      [0, 1], [1, 1], [0, 3], [0, 1], // Not all default, extra fields, orientation, no intrinsic size
+      [1, 1], [0, 1], [0, 2], [9, 6], [0, 3], [1, 2], [2, 8], // Preview: 10×67
+      [1, 1], [2, 2], [4, 10], [0, 2], [1, 2], [2, 3], [0, 1], // Animation
+      [0, 1], [1, 2], // 10-bit integer samples
+      [1, 1], [1, 2], // 16-bit buffers suffice, one extra channel
+      [0, 1], [0, 2], [0, 1], [0, 2], [0, 2], [1, 2], [5, 4], // Alpha channel named "alpha"
+      ...[...'alpha'].map((char): [number, number] => [char.charCodeAt(0), 8]),
+      [1, 1], // Associated alpha
+      [1, 1], // XYB encoded
+      [0, 1], [0, 1], [0, 2], [1, 2], [2, 2], [9, 4], [0, 1], [3, 2], [0, 6], // RGB, D65, P3, HLG
+    ])
+
+    expect(readJxlColorEncoding(codestream)).toEqual({
+      colorSpace: 'rgb',
+      iccProfile: false,
+      whitePoint: 1,
+      primaries: 11,
+      transferFunction: 18,
+    })
+  })
+
+  it('reads a gamma curve instead of a transfer function', () => {
+    const codestream = createCodestream([
+      ...SMALL_SIZE,
+      [0, 1], [0, 1], [0, 1], [0, 2], [1, 1], [0, 2], [0, 1], // 8-bit, no extra channels, not XYB
+      [0, 1], [0, 1], [1, 2], [1, 2], [1, 1], [4545500, 24], // Grey, D65, gamma 0.45455
+    ])
+
+    expect(readJxlColorEncoding(codestream)).toEqual({
+      colorSpace: 'grey',
+      iccProfile: false,
+      whitePoint: 1,
+      gamma: 0.45455,
+    })
+  })
+
+  it('reports an ICC profile without colour fields', () => {
+    const codestream = createCodestream([
+      ...SMALL_SIZE,
+      [0, 1], [0, 1], [0, 1], [0, 2], [1, 1], [0, 2], [1, 1],
+      [0, 1], [1, 1], [0, 2], // Not all default, ICC profile, RGB
+    ])
+
+    expect(readJxlColorEncoding(codestream)).toEqual({ colorSpace: 'rgb', iccProfile: true })
+  })
+
+  it('treats all default metadata as sRGB', () => {
+    expect(readJxlColorEncoding(createCodestream([...SMALL_SIZE, [1, 1]]))).toMatchObject({ primaries: 1, transferFunction: 13 })
+  })
+
+  it('rejects truncated headers and other formats', () => {
+    expect(() => readJxlColorEncoding(readFixture('jxl-test.jxl').subarray(0, 50))).toThrow(JxlFormatError)
+    expect(() => readJxlColorEncoding(readFixture('reference.jpg'))).toThrow(JxlFormatError)
+  })
+})
@@ -3,7 +3,7 @@
  */
 
 // File processing status
-export type FileStatus = 'pending' | 'ready' | 'processing' | 'completed' | 'error'
+export type FileStatus = 'pending' | 'ready' | 'queued' | 'processing' | 'completed' | 'error' | 'cancelled'
 
 // Log levels
 export type LogLevel = 'info' | 'success' | 'warning' | 'error'
@@ -19,6 +19,12 @@ export interface ProcessingFile {
   status: FileStatus
   error: string | null
   progress: number
+  stage?: string // Current pipeline stage label while processing
+  preset?: PresetId // Per-file target platform, falls back to the batch preset
+  resizeTo?: number // Long edge the server scales the image down to during conversion
+  mode?: ConversionMode // Defaults to 'convert'
+  sdrFile?: File // SDR JPEG paired with the HDR source when synthesizing
+  jobId?: string // Server job of the current attempt, used to cancel it
   result?: ProcessResult
   dimensions?: {
     width: number
@@ -29,51 +35,449 @@ export interface ProcessingFile {
   createdAt?: number // Timestamp for analytics tracking
 }
 
+// Supported input image types
+export type ImageFileType = 'jpeg' | 'avif' | 'jxl'
+
+// Machine-readable API error codes
+export type ApiErrorCode =
+  | 'UNSUPPORTED_FORMAT'
+  | 'INVALID_METADATA'
+  | 'UNKNOWN_PRESET'
+  | 'INVALID_OPTION'
+  | 'MISSING_GAIN_MAP'
+  | 'UNAUTHORIZED'
+  | 'RATE_LIMITED'
+  | 'JOB_LIMIT'
+
+// How the gain map is obtained: kept from the input, or computed from the HDR source (and an optional SDR image)
+export type ConversionMode = 'convert' | 'synthesize'
+
+// Target platform presets
+export type PresetId = 'instagram' | 'threads' | 'google-photos' | 'ultrahdr'
+
+// YCbCr chroma subsampling of the SDR base image and gain map
+export type ChromaSubsampling = '420' | '422' | '444'
+
+// Gain map resolution relative to the SDR base (1 = same size, 2 = half, 4 = quarter)
+export type GainMapScale = 1 | 2 | 4
+
+// JPEG encoding of the SDR base and gain map, defaults come from the preset
+export interface EncodingOptions {
+  baseQuality: number // 1-100
+  gainMapQuality: number // 1-100
+  gainMapScale: GainMapScale
+  subsampling: ChromaSubsampling // Both images
+}
+
+// HDR transfer function and colour gamuts the UHDR encoder understands
+export type HdrTransfer = 'pq' | 'hlg' | 'linear'
+export type ColorGamut = 'bt709' | 'display_p3' | 'bt2100'
+
+// Per-request overrides of the AVIF/JXL colour interpretation, unset fields are detected
+export interface ColorOverrides {
+  transfer?: HdrTransfer
+  hdrGamut?: ColorGamut
+  sdrGamut?: ColorGamut
+}
+
+export type ColorSettingField = keyof ColorOverrides
+
+// Where a colour setting came from
+export type ColorSettingSource = 'override' | 'nclx' | 'default'
+
+// CICP code points (ITU-T H.273) of an AVIF nclx colour box, or the equivalent of a JPEG XL colour encoding
+export interface NclxColorInfo {
+  colourPrimaries: number
+  transferCharacteristics: number
+  matrixCoefficients: number
+  fullRange: boolean
+}
+
+// Colour interpretation used to encode an AVIF/JXL source
+export interface ColorSettings {
+  transfer: HdrTransfer
+  hdrGamut: ColorGamut
+  sdrGamut: ColorGamut
+  sources: Record<ColorSettingField, ColorSettingSource>
+  nclx?: NclxColorInfo // As found in the source, when present
+}
+
+// Encoding settings bundled for a target platform
+export interface ConversionPreset {
+  id: PresetId
+  name: string
+  description: string
+  metadata: HdrMetadata
+  quality: number // JPEG quality 1-100
+  subsampling: ChromaSubsampling
+  maxDimension: number | null // Longest edge in px, null when unlimited
+  maxFileSize: number | null // Bytes, null when unlimited
+}
+
+// Outcome of HDR validation, 'unknown' when the file could not be analyzed
+export type HdrVerdict = 'hdr' | 'sdr' | 'unknown'
+
+export type HdrConfidence = 'high' | 'medium' | 'low'
+
+export type TransferFunction = 'PQ' | 'HLG' | 'sRGB'
+
+// Where gain map metadata was found
+export type GainMapMetadataFormat = 'xmp' | 'iso'
+
 // HDR validation info
 export interface HdrValidationInfo {
-  isHDR: boolean
-  fileType: 'jpeg' | 'avif'
+  isHDR: boolean // Same as verdict === 'hdr'
+  verdict: HdrVerdict
+  confidence: HdrConfidence
+  reason: string // Why the validator reached its verdict
+  fileType: ImageFileType
+  container?: string // e.g. 'Ultra HDR JPEG', 'AVIF'
+  hasGainMap?: boolean
+  gainMapMetadata?: GainMapMetadataFormat[]
   bitDepth?: number
   colorSpace?: string
-  details?: string
+  transferFunction?: TransferFunction
+  details?: string // Short summary for logs and badges
+  error?: string
+  errorCode?: ApiErrorCode
+  detectedFormat?: string
+}
+
+// Outcome of a compliance rule, 'fail' means the target platform will likely drop or reject the HDR rendition
+export type ComplianceStatus = 'pass' | 'warn' | 'fail'
+
+export type ComplianceRuleId =
+  | 'base-subsampling'
+  | 'gainmap-subsampling'
+  | 'mpf-structure'
+  | 'iso-metadata'
+  | 'metadata-target'
+  | 'dimensions'
+  | 'file-size'
+
+export interface ComplianceRule {
+  id: ComplianceRuleId
+  name: string
+  status: ComplianceStatus
+  message: string
+}
+
+// Checks of a converted JPEG against the preset it was encoded for
+export interface ComplianceReport {
+  preset: PresetId
+  status: ComplianceStatus // Worst status of all rules
+  rules: ComplianceRule[]
+}
+
+// Conversion output kept on the server until the job expires
+export interface ResultFile {
+  url: string // Download path under /api/results
+  size: number // Exact size in bytes
+}
+
+// Colour scale of the gain map heat map, from the weakest to the strongest boost
+export interface GainMapLegend {
+  colors: string[] // CSS colours, evenly spaced along the scale
+  stops: number[] // Boost in stops (log2) at each colour
 }
 
 // API conversion response
 export interface ConversionResult {
   success: boolean
-  outputJpg?: string // Base64 encoded JPG
-  sdrImage?: string // Base64 encoded SDR
-  gainMap?: string // Base64 encoded gain map
-  metadata?: HdrMetadata
+  outputJpg?: ResultFile
+  sdrImage?: ResultFile // SDR base image exactly as stored in the output
+  gainMap?: ResultFile
+  gainMapHeatmap?: ResultFile // False-colour rendering of the gain map
+  gainMapLegend?: GainMapLegend
+  metadata?: HdrMetadata // Gain map metadata of the converted JPEG
+  metadataOriginal?: HdrMetadata // Gain map metadata decoded from the input
+  preset?: PresetId // Preset the conversion was encoded with
+  mode?: ConversionMode
+  encoding?: EncodingOptions // Encoding actually used, preset defaults merged with overrides
+  color?: ColorSettings // AVIF/JXL sources only
+  compliance?: ComplianceReport
   error?: string
+  errorCode?: ApiErrorCode
   logs?: string[]
 }
 
+// Conversion job status
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled'
+
+// Conversion pipeline stage reported while a job runs
+export type ConversionStage =
+  | 'queued'
+  | 'prepare'
+  | 'intermediate'
+  | 'synthesize'
+  | 'decode'
+  | 'sdr'
+  | 'recompress'
+  | 'gainmap'
+  | 'resize'
+  | 'encode'
+  | 'verify'
+  | 'extract'
+  | 'complete'
+  | 'failed'
+  | 'cancelled'
+
+// Structured progress event streamed from /api/jobs/:id/events
+export interface JobProgressEvent {
+  stage: ConversionStage
+  stageLabel: string
+  progress: number
+  level: LogLevel
+  message: string
+  timestamp: number
+}
+
+// Conversion job state returned by /api/jobs
+export interface JobState {
+  id: string
+  fileName: string
+  status: JobStatus
+  stage: ConversionStage
+  stageLabel: string
+  progress: number
+  logs: string[]
+  result?: ConversionResult
+  error?: string
+  createdAt: number
+  startedAt?: number
+  finishedAt?: number
+}
+
 // Processing result for UI display
 export interface ProcessResult {
   success: boolean
   originalImage: string // Blob URL for original AVIF
   finalJpg: string // Blob URL for final JPG
-  sdrImage: string // Blob URL for SDR extraction
+  sdrImage: string // Blob URL for the SDR base image
   gainMapImage: string // Blob URL for gain map
+  gainMapHeatmapImage?: string // Blob URL for the gain map heat map
+  gainMapLegend?: GainMapLegend
   originalSize: number
   processedSize: number
-  metadata?: HdrMetadata
+  sdrSize?: number
+  gainMapSize?: number
+  metadataOriginal?: HdrMetadata
+  metadataProcessed?: HdrMetadata
+  preset?: PresetId
+  mode?: ConversionMode
+  encoding?: EncodingOptions
+  color?: ColorSettings
+  compliance?: ComplianceReport
+  convertedAt?: number // When the server finished the conversion
   error?: string
 }
 
+// ProcessResult images kept as blob: URLs, persisted as the Blobs behind them
+export type PersistedResultImage = 'finalJpg' | 'sdrImage' | 'gainMapImage' | 'gainMapHeatmapImage'
+
+// ProcessResult as stored in IndexedDB; originalImage is rebuilt from the stored file
+export interface PersistedResult extends Omit<ProcessResult, 'originalImage' | PersistedResultImage> {
+  images: Partial<Record<PersistedResultImage, Blob>>
+}
+
+// ProcessingFile as stored in IndexedDB; the file bytes are read again from `file` on restore
+export interface PersistedFile extends Omit<ProcessingFile, 'data' | 'progress' | 'stage' | 'jobId' | 'result'> {
+  result?: PersistedResult
+}
+
+// Outcome of a conversion kept in the history
+export type HistoryStatus = 'completed' | 'error' | 'cancelled'
+
+// One finished conversion in the history; its images are stored separately and loaded on demand
+export interface HistoryEntry {
+  id: string
+  fileName: string
+  status: HistoryStatus
+  error?: string
+  finishedAt: number
+  preset: PresetId
+  metadata?: HdrMetadata // Gain map metadata written to the output
+  mode?: ConversionMode
+  originalSize: number
+  processedSize?: number
+  thumbnail?: Blob // Small JPEG of the SDR base
+}
+
+// Source file and result images of a completed history entry
+export interface HistoryResult {
+  id: string
+  original: File
+  result: PersistedResult
+}
+
+// Browser storage used by the origin, in bytes
+export interface StorageUsage {
+  usage: number
+  quota: number
+}
+
+// Sidecar listing every exported file, or none
+export type ExportManifestFormat = 'json' | 'csv' | 'none'
+
+// Contents and naming of a ZIP export
+export interface ExportOptions {
+  includeSdr: boolean
+  includeGainMap: boolean
+  manifest: ExportManifestFormat
+  nameTemplate: string // Tokens: {name}, {preset}, {mode}, {date}, {index}
+}
+
+// One converted file as described in the export manifest
+export interface ExportManifestEntry {
+  source: string
+  files: {
+    finalJpg: string
+    sdrImage?: string
+    gainMap?: string
+  }
+  preset?: PresetId
+  mode: ConversionMode
+  verdict?: HdrVerdict // HDR validation of the source
+  compliance?: ComplianceStatus
+  dimensions: {
+    original?: { width: number, height: number }
+    output?: { width: number, height: number }
+  }
+  sizes: {
+    original: number
+    output: number
+    sdrImage?: number
+    gainMap?: number
+  }
+  metadataInput?: HdrMetadata
+  metadataOutput?: HdrMetadata
+}
+
+// One value for all channels, or one each for red, green and blue
+export type ChannelValue = number | [number, number, number]
+
 // HDR metadata structure
 export interface HdrMetadata {
-  maxContentBoost: number
-  minContentBoost: number
-  gamma: number
-  offsetSdr: number
-  offsetHdr: number
+  maxContentBoost: ChannelValue
+  minContentBoost: ChannelValue
+  gamma: ChannelValue
+  offsetSdr: ChannelValue
+  offsetHdr: ChannelValue
   hdrCapacityMin: number
   hdrCapacityMax: number
   useBaseColorSpace: number
 }
 
+export type HdrMetadataField = keyof HdrMetadata
+
+// Fields a colour gain map may store per channel
+export type HdrMetadataChannelField = 'maxContentBoost' | 'minContentBoost' | 'gamma' | 'offsetSdr' | 'offsetHdr'
+
+// Accepted range for an editable metadata field
+export interface HdrMetadataRange {
+  min: number
+  max: number
+  step: number
+}
+
+// Default gain map metadata and the ranges accepted for overrides
+export interface HdrMetadataConfig {
+  defaults: HdrMetadata
+  ranges: Record<HdrMetadataField, HdrMetadataRange>
+}
+
+// Gain map metadata exactly as stored in a file, in log2 units with one value per channel
+export interface GainMapMetadataValues {
+  version: string
+  baseRenditionIsHdr: boolean
+  gainMapMin: number[]
+  gainMapMax: number[]
+  gamma: number[]
+  offsetSdr: number[]
+  offsetHdr: number[]
+  hdrCapacityMin: number
+  hdrCapacityMax: number
+  useBaseColorSpace?: boolean // Only stored in ISO 21496-1
+  defaulted: string[] // Fields absent from the file, filled with the spec default
+}
+
+export type GainMapMetadataValueField = Exclude<keyof GainMapMetadataValues, 'version' | 'defaulted'>
+
+// One metadata field from the XMP and ISO 21496-1 blocks side by side
+export interface GainMapFieldComparison {
+  field: GainMapMetadataValueField
+  xmp?: number[] | number | boolean
+  iso?: number[] | number | boolean
+  matches: boolean
+}
+
+// What an APPn segment carries
+export type JpegSegmentKind = 'jfif' | 'exif' | 'xmp' | 'xmp-extended' | 'icc' | 'mpf' | 'iso21496' | 'adobe'
+
+// Chroma subsampling as read from a JPEG frame header ('400' is grayscale)
+export type JpegSampling = ChromaSubsampling | '440' | '411' | '400' | 'other'
+
+export interface JpegSegmentInfo {
+  marker: string // APP1, DQT, SOF0...
+  offset: number
+  length: number
+  kind?: JpegSegmentKind
+}
+
+// Image listed in a Multi-Picture Format index
+export interface MpfEntryInfo {
+  index: number
+  type: string
+  offset: number // Absolute offset in the file
+  size: number
+}
+
+// One JPEG codestream inside the inspected file
+export interface InspectedImage {
+  role: 'primary' | 'gainMap' | 'other'
+  offset: number
+  size: number
+  width?: number
+  height?: number
+  bitDepth?: number
+  subsampling?: JpegSampling
+  segments: JpegSegmentInfo[]
+  hdrgmVersion?: string // hdrgm:Version from the XMP
+  isoVersion?: string // Minimum version from the ISO 21496-1 block
+  xmp: GainMapMetadataValues | null
+  iso: GainMapMetadataValues | null
+}
+
+// Report returned by /api/inspect
+export interface InspectionReport {
+  fileName: string
+  fileType: ImageFileType
+  fileSize: number
+  images: InspectedImage[]
+  mpf: MpfEntryInfo[] | null
+  gainMap: {
+    xmp: GainMapMetadataValues | null
+    iso: GainMapMetadataValues | null
+    comparison: GainMapFieldComparison[]
+  } | null
+  warnings: string[]
+}
+
+// API key as listed by the admin endpoints; the secret itself is only returned once, on creation
+export interface ApiKeyInfo {
+  id: string
+  name: string
+  prefix: string // First characters of the key, to tell keys apart
+  createdAt: number
+  rateLimit?: number // Requests per minute, the server default when unset
+  maxConcurrentJobs?: number // Server default when unset
+}
+
+// Response of POST /api/admin/keys
+export interface CreatedApiKey extends ApiKeyInfo {
+  key: string
+}
+
 // Log entry
 export interface LogEntry {
   id: string
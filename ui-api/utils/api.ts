@@ -0,0 +1,76 @@
+interface ApiFetchOptions {
+  method?: 'GET' | 'POST' | 'DELETE'
+  body?: FormData
+  responseType?: 'blob'
+  signal?: AbortSignal
+  settleOnAbort?: boolean // The signal only cuts retry waits short, a request already sent still completes
+  onRateLimited?: (retryAfter: number) => void // Called before each wait for the rate limit to clear
+}
+
+// Give up after this many 429 answers in a row, e.g. when another client keeps the bucket empty
+const MAX_RATE_LIMIT_RETRIES = 20
+
+// Query parameter carrying the API key where headers cannot be set (EventSource)
+const API_KEY_PARAM = 'api_key'
+
+/**
+ * Seconds the server asked to wait, from `Retry-After` or the error body
+ */
+function getRetryAfter(error: any): number {
+  const header = Number(error?.response?.headers?.get('retry-after'))
+  const seconds = header || Number(error?.data?.data?.retryAfter)
+  return seconds > 0 ? seconds : 1
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted()
+    const onAbort = (): void => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Call the API with the configured API key. Rate limited requests (429) are retried after `Retry-After`.
+ * With `settleOnAbort`, a request that creates something on the server is not cut off after sending,
+ * so the caller still learns what was created and can clean it up.
+ */
+export async function apiFetch<T>(url: string, options: ApiFetchOptions = {}): Promise<T> {
+  const { onRateLimited, settleOnAbort, signal, ...fetchOptions } = options
+  const { apiKey } = useSettingsStore()
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted()
+    try {
+      return await $fetch<T>(url, {
+        ...fetchOptions,
+        signal: settleOnAbort ? undefined : signal,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+      }) as T
+    }
+    catch (error: any) {
+      if (error?.statusCode !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES || signal?.aborted) {
+        throw error
+      }
+      const retryAfter = getRetryAfter(error)
+      onRateLimited?.(retryAfter)
+      await wait(retryAfter * 1000, signal)
+    }
+  }
+}
+
+/**
+ * URL with the API key as a query parameter, for requests that cannot send headers
+ */
+export function withApiKey(url: string): string {
+  const { apiKey } = useSettingsStore()
+  if (!apiKey) return url
+  return `${url}${url.includes('?') ? '&' : '?'}${API_KEY_PARAM}=${encodeURIComponent(apiKey)}`
+}
@@ -0,0 +1,30 @@
+/**
+ * Name a converted file after its source, like the conversion script does (photo.avif -> photo_iso.jpg)
+ */
+export function getOutputFileName(sourceName: string): string {
+  return `${sourceName.replace(/\.[^/.]+$/, '')}_iso.jpg`
+}
+
+/**
+ * Make a file name unique within an archive by numbering repeats (photo_iso.jpg, photo_iso-2.jpg)
+ */
+export function getUniqueFileName(fileName: string, usedNames: Set<string>): string {
+  let candidate = fileName
+  for (let index = 2; usedNames.has(candidate); index++) {
+    candidate = fileName.replace(/(\.[^/.]+)?$/, `-${index}$1`)
+  }
+  usedNames.add(candidate)
+  return candidate
+}
+
+/**
+ * Save a URL (usually a blob: URL) under the given file name
+ */
+export function downloadUrl(url: string, fileName: string): void {
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+}